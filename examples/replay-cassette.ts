@@ -0,0 +1,34 @@
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorage } from '../src/storage.js';
+import { Cassette, cassetteId, replayResearch } from '../src/cassette.js';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+// Re-runs a recorded research task offline. Record cassettes by starting the
+// server with LLM_CASSETTE_MODE=record, then run:
+//   npm run replay -- <taskId>
+async function replay() {
+  const taskId = process.argv[2];
+  if (!taskId) {
+    console.error('Usage: npm run replay -- <taskId>');
+    process.exit(1);
+  }
+
+  const storage = new FileStorage(
+    process.env.RESEARCH_STORAGE_DIR || path.join(os.homedir(), '.research-task-mcp-server')
+  );
+  const cassette = await storage.get<Cassette>('cassettes', cassetteId('task', taskId));
+  if (!cassette) {
+    console.error(`No cassette recorded for task ${taskId}`);
+    process.exit(1);
+  }
+
+  console.log(`Replaying ${cassette.entries.length} recorded LLM calls...\n`);
+  const { synthesis } = await replayResearch(cassette);
+
+  console.log(JSON.stringify(synthesis, null, 2));
+}
+
+replay().catch(console.error);
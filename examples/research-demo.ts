@@ -1,4 +1,5 @@
 import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { AnthropicLLMClient } from '../src/llm-client.js';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -10,7 +11,7 @@ async function demonstrateResearch() {
     return;
   }
 
-  const manager = new FlexibleResearchManager(apiKey);
+  const manager = new FlexibleResearchManager(new AnthropicLLMClient(apiKey));
 
   console.log('🔍 Starting Research Configuration...\n');
 
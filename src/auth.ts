@@ -0,0 +1,78 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+
+// Who a bearer token acts for. Users sharing a workspace see each other's research
+export interface TokenOwner {
+  userId: string;
+  workspace?: string;
+}
+
+// Keyed by the SHA-256 of the token so raw tokens are not kept in memory
+export type AuthTokens = Map<string, TokenOwner>;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Reads MCP_AUTH_TOKENS_FILE, a JSON object mapping each token to
+// { "userId": "...", "workspace": "..." }. Undefined when the variable is unset
+export function loadAuthTokens(env: NodeJS.ProcessEnv = process.env): AuthTokens | undefined {
+  if (!env.MCP_AUTH_TOKENS_FILE) {
+    return undefined;
+  }
+
+  let fileTokens: Record<string, Partial<TokenOwner>>;
+  try {
+    fileTokens = JSON.parse(readFileSync(env.MCP_AUTH_TOKENS_FILE, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Could not read MCP_AUTH_TOKENS_FILE ${env.MCP_AUTH_TOKENS_FILE}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  // Entries are numbered rather than named so errors never print a token
+  const errors: string[] = [];
+  const tokens: AuthTokens = new Map();
+  Object.entries(fileTokens).forEach(([token, owner], index) => {
+    if (!token.trim()) {
+      errors.push(`entry ${index + 1} has an empty token`);
+    }
+    if (typeof owner?.userId !== 'string' || !owner.userId.trim()) {
+      errors.push(`entry ${index + 1}: userId must be a non-empty string`);
+    }
+    if (owner?.workspace !== undefined && (typeof owner.workspace !== 'string' || !owner.workspace.trim())) {
+      errors.push(`entry ${index + 1}: workspace must be a non-empty string`);
+    }
+    tokens.set(hashToken(token), { userId: owner?.userId as string, workspace: owner?.workspace });
+  });
+  if (errors.length > 0) {
+    throw new Error(`Invalid auth tokens file: ${errors.join('; ')}`);
+  }
+  if (tokens.size === 0) {
+    throw new Error('Invalid auth tokens file: no tokens defined');
+  }
+
+  return tokens;
+}
+
+export function bearerAuthenticator(tokens: AuthTokens): (token: string) => AuthInfo | undefined {
+  return token => {
+    const owner = tokens.get(hashToken(token));
+    if (!owner) {
+      return undefined;
+    }
+    return {
+      token,
+      clientId: owner.userId,
+      scopes: [],
+      extra: { ownerId: owner.workspace ?? owner.userId }
+    };
+  };
+}
+
+// Research is scoped to the workspace when there is one, otherwise to the user
+export function ownerOf(auth?: AuthInfo): string | undefined {
+  const ownerId = auth?.extra?.ownerId;
+  return typeof ownerId === 'string' ? ownerId : undefined;
+}
@@ -0,0 +1,136 @@
+import { BudgetReport, ResearchBudget } from './types.js';
+import { UsageTotals } from './cost-tracker.js';
+import { LLMMiddleware, currentLLMScope } from './llm-client.js';
+import { ResearchError } from './errors.js';
+import { abortAfter } from './worker-pool.js';
+
+// Share of any cap at which a run starts cutting back
+export const BUDGET_DEGRADE_THRESHOLD = 0.8;
+
+export type BudgetState = 'ok' | 'approaching' | 'exceeded';
+
+export class BudgetExceededError extends ResearchError {
+  readonly code = 'budget_exceeded';
+
+  constructor(public readonly reason: string) {
+    super(`Research budget exceeded: ${reason}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export function validateBudget(budget: ResearchBudget): string[] {
+  const errors: string[] = [];
+  for (const field of ['maxTokens', 'maxCostUsd', 'maxCalls', 'maxDurationMs'] as const) {
+    const value = budget[field];
+    if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+      errors.push(`${field} must be a positive number`);
+    }
+  }
+  return errors;
+}
+
+// Tracks one run against its caps. Usage is read from the task's cost totals
+export class BudgetGuard {
+  private readonly startedAt = Date.now();
+  private readonly deadline: ReturnType<typeof abortAfter>;
+  private degraded = false;
+  private truncated = false;
+  private exceededReason?: string;
+
+  constructor(
+    private readonly budget: ResearchBudget,
+    private readonly usage: () => UsageTotals,
+    parent: AbortSignal
+  ) {
+    this.deadline = abortAfter(parent, budget.maxDurationMs);
+  }
+
+  // Aborts with the parent signal, and as soon as the duration cap expires so calls
+  // in flight are cut off too
+  get signal(): AbortSignal {
+    return this.deadline.signal;
+  }
+
+  timedOut(): boolean {
+    return this.deadline.timedOut();
+  }
+
+  // Call once the run is over so the deadline does not keep the process alive
+  stop(): void {
+    this.deadline.clear();
+  }
+
+  state(): BudgetState {
+    if (this.exceededReason) {
+      return 'exceeded';
+    }
+
+    const totals = this.usage();
+    const measures: [string, number, number | undefined][] = [
+      ['tokens', totals.inputTokens + totals.outputTokens, this.budget.maxTokens],
+      ['cost', totals.costUsd, this.budget.maxCostUsd],
+      ['calls', totals.calls, this.budget.maxCalls],
+      // The deadline may fire a moment before the clock agrees
+      ['duration', this.timedOut() ? Infinity : Date.now() - this.startedAt, this.budget.maxDurationMs]
+    ];
+
+    let state: BudgetState = 'ok';
+    for (const [name, used, limit] of measures) {
+      if (limit === undefined) {
+        continue;
+      }
+      if (used >= limit) {
+        this.exceededReason = `${name} limit of ${limit} reached`;
+        state = 'exceeded';
+        break;
+      }
+      if (used >= limit * BUDGET_DEGRADE_THRESHOLD) {
+        state = 'approaching';
+      }
+    }
+
+    if (state !== 'ok') {
+      this.degraded = true;
+    }
+    return state;
+  }
+
+  // False once a cap is reached; the caller is expected to skip the work it guards
+  canContinue(): boolean {
+    if (this.state() === 'exceeded') {
+      this.truncated = true;
+      return false;
+    }
+    return true;
+  }
+
+  assertCanCall(): void {
+    if (!this.canContinue()) {
+      throw new BudgetExceededError(this.exceededReason!);
+    }
+  }
+
+  report(): BudgetReport {
+    const totals = this.usage();
+    return {
+      limits: this.budget,
+      usage: {
+        tokens: totals.inputTokens + totals.outputTokens,
+        costUsd: totals.costUsd,
+        calls: totals.calls,
+        durationMs: Date.now() - this.startedAt
+      },
+      degraded: this.degraded,
+      truncated: this.truncated,
+      reason: this.exceededReason
+    };
+  }
+}
+
+// Refuses calls made within a scope whose budget is used up
+export function budgetMiddleware(): LLMMiddleware {
+  return (request, next) => {
+    currentLLMScope()?.budget?.assertCanCall();
+    return next(request);
+  };
+}
\ No newline at end of file
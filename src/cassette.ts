@@ -0,0 +1,176 @@
+import {
+  BaseLLMClient,
+  LLMMiddleware,
+  LLMRequest,
+  currentLLMScope
+} from './llm-client.js';
+import { ResearchStorage, MemoryStorage } from './storage.js';
+import { FlexibleResearchManager } from './flexible-research-manager.js';
+import { runAsOwner } from './ownership.js';
+import {
+  ResearchConfig,
+  ResearchSynthesis,
+  ResearchTask,
+  RunFlexibleResearchRequest
+} from './types.js';
+
+export interface CassetteEntry {
+  request: LLMRequest;
+  response: string;
+  recordedAt: Date;
+}
+
+// One research run of a task (the first, or a retry) and where its calls start
+export interface CassetteRun {
+  metadata: Record<string, any>;
+  firstEntry: number;
+}
+
+export interface Cassette {
+  id: string;
+  kind: 'task' | 'session';
+  scopeId: string;
+  // Metadata of the first run
+  metadata?: Record<string, any>;
+  // Every run of a task in order; runs[i] owns the entries up to runs[i + 1].firstEntry
+  runs?: CassetteRun[];
+  entries: CassetteEntry[];
+}
+
+export function cassetteId(kind: Cassette['kind'], scopeId: string): string {
+  return `${kind}-${scopeId}`;
+}
+
+// Records every scoped LLM call into one cassette per task or configuration session
+export class CassetteRecorder {
+  private storage: ResearchStorage;
+  private cassettes: Map<string, Promise<Cassette>> = new Map();
+  // Scope metadata of the run last seen per cassette; each run has its own object
+  private currentRuns: Map<string, Record<string, any>> = new Map();
+
+  constructor(storage: ResearchStorage) {
+    this.storage = storage;
+  }
+
+  middleware(): LLMMiddleware {
+    return async (request, next) => {
+      const scope = currentLLMScope();
+      if (!scope) {
+        return next(request);
+      }
+
+      // The run starts with its first call, even if that call fails
+      const cassette = await this.openCassette(scope.kind, scope.id, scope.metadata);
+      if (scope.metadata && this.currentRuns.get(cassette.id) !== scope.metadata) {
+        this.currentRuns.set(cassette.id, scope.metadata);
+        cassette.runs = [...(cassette.runs ?? []), { metadata: scope.metadata, firstEntry: cassette.entries.length }];
+      }
+
+      const response = await next(request);
+      cassette.entries.push({ request, response, recordedAt: new Date() });
+      await this.storage.put('cassettes', cassette.id, cassette);
+      return response;
+    };
+  }
+
+  async getCassette(kind: Cassette['kind'], scopeId: string): Promise<Cassette | undefined> {
+    return this.storage.get<Cassette>('cassettes', cassetteId(kind, scopeId));
+  }
+
+  private openCassette(
+    kind: Cassette['kind'],
+    scopeId: string,
+    metadata?: Record<string, any>
+  ): Promise<Cassette> {
+    const id = cassetteId(kind, scopeId);
+    let cassette = this.cassettes.get(id);
+    if (!cassette) {
+      // Sessions span several tool calls, possibly across restarts, so keep appending
+      cassette = this.storage.get<Cassette>('cassettes', id).then(existing =>
+        existing ?? { id, kind, scopeId, metadata, entries: [] }
+      );
+      this.cassettes.set(id, cassette);
+    }
+    return cassette;
+  }
+}
+
+function replayKey(request: LLMRequest): string {
+  // Model settings are left out so a cassette still replays under different model routing
+  return JSON.stringify([request.role, request.system ?? '', request.prompt]);
+}
+
+// Serves recorded responses for identical requests; unknown requests fail instead of
+// reaching a real provider
+export class ReplayLLMClient extends BaseLLMClient {
+  private recorded: Map<string, string[]> = new Map();
+
+  constructor(cassette: Cassette) {
+    super();
+    this.load(cassette.entries);
+  }
+
+  // Serves only the given entries from now on, e.g. those of one run
+  load(entries: CassetteEntry[]): void {
+    this.recorded.clear();
+    for (const entry of entries) {
+      const key = replayKey(entry.request);
+      const responses = this.recorded.get(key) ?? [];
+      responses.push(entry.response);
+      this.recorded.set(key, responses);
+    }
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const responses = this.recorded.get(replayKey(request));
+    if (!responses || responses.length === 0) {
+      throw new Error(
+        `Cassette has no recorded response for ${request.role} request: ${request.prompt.substring(0, 100)}`
+      );
+    }
+    return responses.shift()!;
+  }
+}
+
+// Re-runs a recorded research task entirely from its cassette: the first run, then
+// each retry, every one served only the responses recorded for it
+export async function replayResearch(cassette: Cassette): Promise<{
+  task: ResearchTask;
+  synthesis: ResearchSynthesis;
+}> {
+  // Cassettes recorded before runs were tracked hold a single run
+  const runs = cassette.runs ?? (cassette.metadata ? [{ metadata: cassette.metadata, firstEntry: 0 }] : []);
+  const config: ResearchConfig | undefined = runs[0]?.metadata.config;
+  const request: RunFlexibleResearchRequest | undefined = runs[0]?.metadata.request;
+  if (cassette.kind !== 'task' || !config || !request) {
+    throw new Error(`Cassette ${cassette.id} is not a replayable research task`);
+  }
+
+  const storage = new MemoryStorage();
+  await storage.put('configs', config.id, config);
+
+  const llm = new ReplayLLMClient(cassette);
+  const manager = new FlexibleResearchManager(llm, storage);
+  await manager.loadFromStorage();
+
+  const entriesOf = (index: number) =>
+    cassette.entries.slice(runs[index].firstEntry, runs[index + 1]?.firstEntry);
+
+  // Plans recorded over authenticated HTTP are only visible to their owner
+  return runAsOwner(config.ownerId, async () => {
+    llm.load(entriesOf(0));
+    let result = await manager.runFlexibleResearch(request);
+
+    for (let index = 1; index < runs.length; index++) {
+      const { metadata } = runs[index];
+      const { configId: _configId, ...settings }: RunFlexibleResearchRequest = metadata.request;
+      llm.load(entriesOf(index));
+      result = await manager.retryFailedDimensions({
+        ...settings,
+        taskId: result.task.id,
+        dimensionIds: metadata.dimensionIds
+      });
+    }
+    return result;
+  });
+}
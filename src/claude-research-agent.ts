@@ -1,23 +1,19 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { SubAgent, SubAgentResults } from './types.js';
-import { RateLimiter } from './rate-limiter.js';
+import { LLMClient } from './llm-client.js';
 
 export class ClaudeResearchAgent {
-  private anthropic: Anthropic;
-  private rateLimiter: RateLimiter;
+  private llm: LLMClient;
 
-  constructor(apiKey: string) {
-    this.anthropic = new Anthropic({
-      apiKey: apiKey,
-    });
-    // Claude API rate limits: 10 requests per minute for standard tier
-    this.rateLimiter = new RateLimiter(10, 60000);
+  constructor(llm: LLMClient) {
+    this.llm = llm;
   }
 
   async performResearch(
     agent: SubAgent,
     depth: 'basic' | 'comprehensive',
-    includeSources: boolean
+    includeSources: boolean,
+    // Completed areas this one depends on
+    priorFindings: SubAgent[] = []
   ): Promise<SubAgentResults> {
     const systemPrompt = `You are a research analyst specializing in evaluating market opportunities for developer tools and LLM evaluation solutions. 
 Your task is to analyze the area "${agent.area}" and provide structured findings based on the following objectives:
@@ -43,42 +39,37 @@ Format your response as a detailed analysis covering:
 - Developer pain points and complaints
 - Recent funding or acquisition activity
 - Revenue potential and pricing models
-- Overall opportunity assessment`;
+- Overall opportunity assessment${this.describePriorFindings(priorFindings)}`;
 
     try {
-      // Wait if rate limited
-      await this.rateLimiter.waitIfNeeded();
-
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 4000,
-        temperature: 0.7,
+      const analysisText = await this.llm.complete({
+        role: 'legacy_research',
         system: systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: userPrompt,
-          },
-        ],
+        prompt: userPrompt,
       });
 
-      const analysisText = response.content[0].type === 'text' 
-        ? response.content[0].text 
-        : '';
-
       return this.parseResearchResponse(analysisText, includeSources);
     } catch (error) {
-      if (error instanceof Error && error.message.includes('rate_limit')) {
-        console.error(`Rate limit error for ${agent.area}. Retrying...`);
-        // Wait longer and retry
-        await new Promise(resolve => setTimeout(resolve, 10000));
-        return this.performResearch(agent, depth, includeSources);
-      }
       console.error(`Error researching ${agent.area}:`, error);
       throw error;
     }
   }
 
+  private describePriorFindings(priorFindings: SubAgent[]): string {
+    const described = priorFindings.filter(agent => agent.results);
+    if (described.length === 0) {
+      return '';
+    }
+
+    return `
+
+Build on what earlier research found rather than repeating it:
+${described.map(agent => {
+  const results = agent.results!;
+  return `- ${agent.area}: existing solutions: ${results.toolCoverage.existingSolutions.join('; ') || 'none found'}; gaps: ${results.toolCoverage.gaps.join('; ') || 'none found'}; enterprise demand: ${results.enterpriseDemand.intensity}`;
+}).join('\n')}`;
+  }
+
   private parseResearchResponse(
     analysisText: string,
     includeSources: boolean
@@ -1,5 +1,4 @@
 import { randomUUID } from 'crypto';
-import Anthropic from '@anthropic-ai/sdk';
 import {
   ConversationState,
   ConversationTurn,
@@ -10,16 +9,100 @@ import {
   OutputFormat
 } from './types.js';
 import { suggestTemplate, getTemplate } from './research-templates.js';
-import { RateLimiter } from './rate-limiter.js';
+import { ResearchStorage, MemoryStorage } from './storage.js';
+import { LLMClient, LLMParseError, StructuredOutput, runInLLMScope } from './llm-client.js';
+import { currentOwner, isVisibleToCurrentOwner } from './ownership.js';
+import { InvalidStateError, NotFoundError } from './errors.js';
+
+const CONFIGURATION_OUTPUT: StructuredOutput = {
+  name: 'record_configuration',
+  description: 'Record the research configuration details stated in the conversation',
+  schema: {
+    type: 'object',
+    properties: {
+      domain: {
+        type: 'string',
+        enum: [
+          'market_research',
+          'academic_research',
+          'competitive_analysis',
+          'technology_assessment',
+          'policy_research',
+          'investment_analysis',
+          'custom'
+        ]
+      },
+      audience: { type: 'array', items: { type: 'string' } },
+      perspective: { type: 'string' },
+      dimensions: { type: 'array', items: { type: 'string' } },
+      outputFormat: {
+        type: 'string',
+        enum: ['comparison', 'deep_dive', 'recommendation', 'survey', 'synthesis', 'executive_summary']
+      },
+      constraints: { type: 'object' },
+      isComplete: {
+        type: 'boolean',
+        description: 'Whether there is enough information to generate a research plan'
+      }
+    },
+    required: ['isComplete']
+  }
+};
+
+const DIMENSIONS_OUTPUT: StructuredOutput = {
+  name: 'record_dimensions',
+  description: 'Record the proposed research dimensions',
+  schema: {
+    type: 'object',
+    properties: {
+      dimensions: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            description: { type: 'string' },
+            evaluationCriteria: { type: 'array', items: { type: 'string' } },
+            dataPoints: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['name', 'description', 'evaluationCriteria', 'dataPoints']
+        }
+      }
+    },
+    required: ['dimensions']
+  }
+};
+
+// Shape of a DIMENSIONS_OUTPUT answer; required fields are guaranteed by schema validation
+interface DimensionsResult {
+  dimensions: {
+    name: string;
+    description: string;
+    evaluationCriteria: string[];
+    dataPoints: string[];
+  }[];
+}
 
 export class ConfigurationWizard {
   private conversations: Map<string, ConversationState> = new Map();
-  private anthropic: Anthropic;
-  private rateLimiter: RateLimiter;
+  private llm: LLMClient;
+  private storage: ResearchStorage;
+
+  constructor(llm: LLMClient, storage: ResearchStorage = new MemoryStorage()) {
+    this.llm = llm;
+    this.storage = storage;
+  }
+
+  async loadSessions(): Promise<void> {
+    const sessions = await this.storage.entries<ConversationState>('sessions');
+    for (const { id, value } of sessions) {
+      this.conversations.set(id, value);
+    }
+  }
 
-  constructor(apiKey: string) {
-    this.anthropic = new Anthropic({ apiKey });
-    this.rateLimiter = new RateLimiter(10, 60000);
+  private async saveSession(state: ConversationState): Promise<void> {
+    await this.storage.put('sessions', state.sessionId, state);
   }
 
   async startConfiguration(initialDescription: string): Promise<{
@@ -50,7 +133,8 @@ export class ConfigurationWizard {
       },
       clarificationNeeded: [],
       suggestedTemplate: suggestedDomain,
-      status: 'active'
+      status: 'active',
+      ownerId: currentOwner()
     };
 
     this.conversations.set(sessionId, state);
@@ -75,18 +159,14 @@ ${suggestedDomain ? `\nNote: Based on the description, this seems like ${suggest
     const userPrompt = `The user wants to research: "${initialDescription}"
 
 Generate 2-3 clarifying questions to better understand their needs. Be specific and helpful.`;
-
-    await this.rateLimiter.waitIfNeeded();
     
-    const completion = await this.anthropic.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 1000,
-      temperature: 0.7,
-      system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }]
-    });
-
-    const response = completion.content[0].type === 'text' ? completion.content[0].text : '';
+    const response = await runInLLMScope({ kind: 'session', id: sessionId }, () =>
+      this.llm.complete({
+        role: 'wizard',
+        system: systemPrompt,
+        prompt: userPrompt
+      })
+    );
     
     state.turns.push({
       role: 'assistant',
@@ -94,6 +174,8 @@ Generate 2-3 clarifying questions to better understand their needs. Be specific
       timestamp: new Date()
     });
 
+    await this.saveSession(state);
+
     return {
       sessionId,
       response,
@@ -105,10 +187,14 @@ Generate 2-3 clarifying questions to better understand their needs. Be specific
     response: string;
     configComplete: boolean;
     extractedConfig?: Partial<ResearchConfig>;
+    parseError?: string;
   }> {
-    const state = this.conversations.get(sessionId);
-    if (!state || state.status !== 'active') {
-      throw new Error('Invalid or expired session');
+    const state = this.getSession(sessionId);
+    if (!state) {
+      throw new NotFoundError(`Session ${sessionId} not found`);
+    }
+    if (state.status !== 'active') {
+      throw new InvalidStateError(`Session ${sessionId} is ${state.status}; start a new configuration`);
     }
 
     state.turns.push({
@@ -142,17 +228,11 @@ Based on this conversation:
 2. Determine what's still needed
 3. Generate appropriate follow-up questions or confirmation`;
 
-    await this.rateLimiter.waitIfNeeded();
-
-    const completion = await this.anthropic.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 1500,
-      temperature: 0.6,
+    const response = await this.llm.complete({
+      role: 'wizard',
       system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }]
+      prompt: userPrompt
     });
-
-    const response = completion.content[0].type === 'text' ? completion.content[0].text : '';
     
     state.turns.push({
       role: 'assistant',
@@ -164,7 +244,7 @@ Based on this conversation:
     const extractionPrompt = `Extract structured configuration from this conversation:
 ${conversationHistory}
 
-Return a JSON object with these fields (only include fields that were clearly specified):
+Record with the ${CONFIGURATION_OUTPUT.name} tool (only include fields that were clearly specified):
 {
   "domain": "market_research|academic_research|competitive_analysis|etc",
   "audience": ["array of audience types mentioned"],
@@ -175,18 +255,10 @@ Return a JSON object with these fields (only include fields that were clearly sp
   "isComplete": true/false
 }`;
 
-    const extractionCompletion = await this.anthropic.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 1000,
-      temperature: 0,
-      messages: [{ role: 'user', content: extractionPrompt }]
-    });
-
     try {
-      const extractedJson = JSON.parse(
-        extractionCompletion.content[0].type === 'text' 
-          ? extractionCompletion.content[0].text 
-          : '{}'
+      const extractedJson = await this.llm.completeStructured(
+        { role: 'structuring', prompt: extractionPrompt },
+        CONFIGURATION_OUTPUT
       );
 
       // Update configuration
@@ -206,29 +278,38 @@ Return a JSON object with these fields (only include fields that were clearly sp
         state.extractedConfig!.context!.constraints = extractedJson.constraints;
       }
 
-      const configComplete = extractedJson.isComplete || false;
+      const configComplete = extractedJson.isComplete;
       if (configComplete) {
         state.status = 'completed';
       }
 
+      await this.saveSession(state);
+
       return {
         response,
         configComplete,
         extractedConfig: state.extractedConfig
       };
     } catch (error) {
+      if (!(error instanceof LLMParseError)) {
+        throw error;
+      }
+
+      await this.saveSession(state);
+
       return {
         response,
         configComplete: false,
-        extractedConfig: state.extractedConfig
+        extractedConfig: state.extractedConfig,
+        parseError: error.message
       };
     }
   }
 
   async generateResearchPlan(sessionId: string): Promise<ResearchConfig> {
-    const state = this.conversations.get(sessionId);
+    const state = this.getSession(sessionId);
     if (!state) {
-      throw new Error('Session not found');
+      throw new NotFoundError(`Session ${sessionId} not found`);
     }
 
     const template = state.suggestedTemplate 
@@ -275,7 +356,9 @@ Return a JSON object with these fields (only include fields that were clearly sp
       },
       dimensions,
       outputFormat: state.extractedConfig!.outputFormat || 'synthesis',
-      qualityChecks
+      qualityChecks,
+      ownerId: state.ownerId,
+      createdAt: new Date()
     };
 
     return config;
@@ -297,64 +380,40 @@ For each dimension, provide:
 3. 3-4 evaluation criteria
 4. 3-4 specific data points to collect
 
-Return as JSON array of dimension objects.`;
-
-    await this.rateLimiter.waitIfNeeded();
-
-    const completion = await this.anthropic.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 2000,
-      temperature: 0.3,
-      messages: [{ role: 'user', content: prompt }]
-    });
+Record them with the ${DIMENSIONS_OUTPUT.name} tool.`;
 
+    // Made-up placeholder dimensions would be researched as if they were the plan, so
+    // an unusable answer fails plan generation instead; the session stays open to retry
+    let dimensions: DimensionsResult['dimensions'];
     try {
-      const dimensions = JSON.parse(
-        completion.content[0].type === 'text' 
-          ? completion.content[0].text 
-          : '[]'
-      );
-
-      return dimensions.map((dim: any, index: number) => ({
-        id: `dimension_${index + 1}`,
-        name: dim.name || `Dimension ${index + 1}`,
-        description: dim.description || '',
-        evaluationCriteria: dim.evaluationCriteria || [],
-        dataPoints: dim.dataPoints || [],
-        weight: 1 / dimensions.length
-      }));
+      ({ dimensions } = await this.llm.completeStructured<DimensionsResult>(
+        { role: 'structuring', prompt },
+        DIMENSIONS_OUTPUT
+      ));
     } catch (error) {
-      // Fallback dimensions
-      return [
-        {
-          id: 'dimension_1',
-          name: 'Core Analysis',
-          description: 'Primary research focus area',
-          evaluationCriteria: ['Relevance', 'Depth', 'Evidence quality'],
-          dataPoints: ['Key findings', 'Supporting data', 'Examples'],
-          weight: 0.4
-        },
-        {
-          id: 'dimension_2',
-          name: 'Context & Background',
-          description: 'Contextual information and background',
-          evaluationCriteria: ['Comprehensiveness', 'Relevance', 'Currency'],
-          dataPoints: ['Historical context', 'Current state', 'Related factors'],
-          weight: 0.3
-        },
-        {
-          id: 'dimension_3',
-          name: 'Implications & Applications',
-          description: 'Practical implications and applications',
-          evaluationCriteria: ['Practicality', 'Impact', 'Feasibility'],
-          dataPoints: ['Use cases', 'Benefits', 'Challenges', 'Recommendations'],
-          weight: 0.3
-        }
-      ];
+      if (!(error instanceof LLMParseError)) {
+        throw error;
+      }
+      throw new LLMParseError(`Could not generate research dimensions: ${error.message}`, error.responseText);
     }
+
+    return dimensions.map((dim, index) => ({
+      id: `dimension_${index + 1}`,
+      name: dim.name || `Dimension ${index + 1}`,
+      description: dim.description,
+      evaluationCriteria: dim.evaluationCriteria,
+      dataPoints: dim.dataPoints,
+      weight: 1 / dimensions.length
+    }));
   }
 
+  // Sessions belonging to other owners are reported as missing
   getSession(sessionId: string): ConversationState | undefined {
-    return this.conversations.get(sessionId);
+    const state = this.conversations.get(sessionId);
+    return state && isVisibleToCurrentOwner(state) ? state : undefined;
+  }
+
+  listSessions(): ConversationState[] {
+    return Array.from(this.conversations.values()).filter(isVisibleToCurrentOwner);
   }
 }
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { readFileSync } from 'fs';
+import { LLMRole, LLMUsage, currentLLMScope } from './llm-client.js';
+import { ResearchStorage } from './storage.js';
+
+// USD per million tokens
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'claude-3-opus-20240229': { inputPerMillion: 15, outputPerMillion: 75 },
+  'claude-3-sonnet-20240229': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-haiku-20240307': { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+  'claude-3-5-sonnet-20240620': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-sonnet-20241022': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-haiku-20241022': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-3-7-sonnet-20250219': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-sonnet-4-20250514': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-opus-4-20250514': { inputPerMillion: 15, outputPerMillion: 75 }
+};
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface LLMCallUsage extends LLMUsage {
+  subAgentId?: string;
+  costUsd: number;
+  recordedAt: Date;
+}
+
+export interface TaskCost {
+  taskId: string;
+  total: UsageTotals;
+  // Keyed by LLM role: research, structuring, quality_review, synthesis, summary
+  byPhase: Partial<Record<LLMRole, UsageTotals>>;
+  bySubAgent: Record<string, UsageTotals>;
+  // Models missing from the price table; their calls are counted at zero cost
+  unpricedModels: string[];
+  calls: LLMCallUsage[];
+}
+
+// Defaults merged with the optional MODEL_PRICES_FILE, a JSON object keyed by model
+export function loadPriceTable(env: NodeJS.ProcessEnv = process.env): PriceTable {
+  if (!env.MODEL_PRICES_FILE) {
+    return DEFAULT_PRICE_TABLE;
+  }
+
+  let filePrices: Record<string, Partial<ModelPrice>>;
+  try {
+    filePrices = JSON.parse(readFileSync(env.MODEL_PRICES_FILE, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Could not read MODEL_PRICES_FILE ${env.MODEL_PRICES_FILE}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  const errors: string[] = [];
+  for (const [model, price] of Object.entries(filePrices)) {
+    for (const field of ['inputPerMillion', 'outputPerMillion'] as const) {
+      const value = price?.[field];
+      if (typeof value !== 'number' || value < 0) {
+        errors.push(`${model}.${field} must be a non-negative number`);
+      }
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid price table: ${errors.join('; ')}`);
+  }
+
+  return { ...DEFAULT_PRICE_TABLE, ...(filePrices as PriceTable) };
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function addUsage(totals: UsageTotals, call: LLMCallUsage): void {
+  totals.calls++;
+  totals.inputTokens += call.inputTokens;
+  totals.outputTokens += call.outputTokens;
+  totals.costUsd = Math.round((totals.costUsd + call.costUsd) * 1e6) / 1e6;
+}
+
+export class CostTracker {
+  private costs: Map<string, TaskCost> = new Map();
+  private storage: ResearchStorage;
+  private prices: PriceTable;
+
+  constructor(storage: ResearchStorage, prices: PriceTable = DEFAULT_PRICE_TABLE) {
+    this.storage = storage;
+    this.prices = prices;
+  }
+
+  async loadFromStorage(): Promise<void> {
+    for (const { id, value } of await this.storage.entries<TaskCost>('costs')) {
+      this.costs.set(id, value);
+    }
+  }
+
+  // Listener for LLMCallScope.onUsage; picks up the sub-agent from the active scope
+  listener(taskId: string): (usage: LLMUsage) => void {
+    return usage => this.record(taskId, usage, currentLLMScope()?.subAgentId);
+  }
+
+  record(taskId: string, usage: LLMUsage, subAgentId?: string): void {
+    const cost = this.costs.get(taskId) ?? {
+      taskId,
+      total: emptyTotals(),
+      byPhase: {},
+      bySubAgent: {},
+      unpricedModels: [],
+      calls: []
+    };
+    this.costs.set(taskId, cost);
+
+    const price = this.prices[usage.model];
+    if (!price && !cost.unpricedModels.includes(usage.model)) {
+      cost.unpricedModels.push(usage.model);
+    }
+
+    const call: LLMCallUsage = {
+      ...usage,
+      subAgentId,
+      costUsd: price
+        ? (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1e6
+        : 0,
+      recordedAt: new Date()
+    };
+    cost.calls.push(call);
+
+    addUsage(cost.total, call);
+    addUsage(cost.byPhase[usage.role] ??= emptyTotals(), call);
+    if (subAgentId) {
+      addUsage(cost.bySubAgent[subAgentId] ??= emptyTotals(), call);
+    }
+
+    this.save(taskId).catch(error => {
+      console.error(`Failed to save cost for task ${taskId}:`, error);
+    });
+  }
+
+  getTaskCost(taskId: string): TaskCost | undefined {
+    return this.costs.get(taskId);
+  }
+
+  async save(taskId: string): Promise<void> {
+    const cost = this.costs.get(taskId);
+    if (cost) {
+      await this.storage.put('costs', taskId, cost);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+// Machine-readable codes returned to MCP clients with failed tool calls
+export type ErrorCode =
+  | 'not_found'
+  | 'invalid_argument'
+  | 'invalid_state'
+  | 'upstream_llm_error'
+  | 'budget_exceeded'
+  | 'internal_error';
+
+export abstract class ResearchError extends Error {
+  abstract readonly code: ErrorCode;
+}
+
+// A session, plan or task that does not exist or belongs to someone else
+export class NotFoundError extends ResearchError {
+  readonly code = 'not_found';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class InvalidArgumentError extends ResearchError {
+  readonly code = 'invalid_argument';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+// The request is valid but not at this point, e.g. a result asked for before the run finished
+export class InvalidStateError extends ResearchError {
+  readonly code = 'invalid_state';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidStateError';
+  }
+}
+
+export class UpstreamLLMError extends ResearchError {
+  readonly code = 'upstream_llm_error';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'UpstreamLLMError';
+  }
+}
+
+export function describeError(error: unknown): { code: ErrorCode; message: string } {
+  if (error instanceof ResearchError) {
+    return { code: error.code, message: error.message };
+  }
+  return {
+    code: 'internal_error',
+    message: error instanceof Error ? error.message : 'Unknown error'
+  };
+}
@@ -1,54 +1,335 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { 
   FlexibleSubAgent, 
   DimensionResults, 
   ResearchConfig,
-  ResearchDimension 
+  ResearchDimension,
+  ResearchDepth,
+  SubQuestion
 } from './types.js';
-import { RateLimiter } from './rate-limiter.js';
+import { LLMClient, LLMParseError, StructuredOutput, currentLLMScope } from './llm-client.js';
+import { BudgetExceededError } from './budget.js';
+
+const DIMENSION_FINDINGS_OUTPUT: StructuredOutput = {
+  name: 'record_dimension_findings',
+  description: 'Record the structured findings for one research dimension',
+  schema: {
+    type: 'object',
+    properties: {
+      findings: {
+        type: 'object',
+        description: 'Key findings organized by theme'
+      },
+      evidence: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Specific evidence, examples, or data points'
+      },
+      confidence: {
+        type: 'number',
+        minimum: 0,
+        maximum: 1,
+        description: 'Confidence in the findings'
+      },
+      sources: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Sources or references mentioned in the research'
+      },
+      metadata: {
+        type: 'object',
+        description: 'Any additional relevant information'
+      }
+    },
+    required: ['findings', 'evidence', 'confidence', 'sources']
+  }
+};
+
+interface DimensionFindingsResult {
+  findings: Record<string, any>;
+  evidence: string[];
+  confidence: number;
+  sources: string[];
+  metadata?: Record<string, any>;
+}
+
+const SUB_QUESTIONS_OUTPUT: StructuredOutput = {
+  name: 'record_sub_questions',
+  description: 'Record the sub-questions that break down a research dimension',
+  schema: {
+    type: 'object',
+    properties: {
+      subQuestions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            question: { type: 'string', description: 'A specific, answerable question' },
+            targets: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Evaluation criteria and data points the question covers, copied exactly'
+            }
+          },
+          required: ['question', 'targets']
+        }
+      }
+    },
+    required: ['subQuestions']
+  }
+};
+
+const COVERAGE_OUTPUT: StructuredOutput = {
+  name: 'record_coverage',
+  description: 'Record which evaluation criteria and data points the research has not addressed',
+  schema: {
+    type: 'object',
+    properties: {
+      unaddressed: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Criteria and data points no answer addresses with concrete findings, copied exactly'
+      }
+    },
+    required: ['unaddressed']
+  }
+};
+
+// An exhaustive dimension gets its first pass plus follow-ups on what earlier passes missed
+export const EXHAUSTIVE_RESEARCH_PASSES = 3;
+
+// Iterative research stops after this many passes unless the run sets its own cap
+export const DEFAULT_MAX_RESEARCH_ITERATIONS = 3;
+const MAX_SUB_QUESTIONS_PER_PASS = 6;
+
+// How a dimension was researched, recorded in its results' metadata
+interface ResearchSettings {
+  depth: ResearchDepth;
+  includeSources: boolean;
+  passes: number;
+}
+
+function depthInstructions(depth: ResearchDepth): string {
+  return {
+    basic: 'Provide a focused analysis covering the key points efficiently.',
+    comprehensive: 'Provide a thorough, detailed analysis with extensive examples and evidence.',
+    exhaustive: 'Provide an exhaustive analysis: cover every criterion and data point in depth, with quantitative evidence, extensive examples and counterpoints.'
+  }[depth];
+}
 
 export class FlexibleResearchAgent {
-  private anthropic: Anthropic;
-  private rateLimiter: RateLimiter;
+  private llm: LLMClient;
 
-  constructor(apiKey: string) {
-    this.anthropic = new Anthropic({ apiKey });
-    this.rateLimiter = new RateLimiter(10, 60000);
+  constructor(llm: LLMClient) {
+    this.llm = llm;
   }
 
   async performResearch(
     agent: FlexibleSubAgent,
     config: ResearchConfig,
-    depth: 'basic' | 'comprehensive',
-    includeSources: boolean
+    depth: ResearchDepth,
+    includeSources: boolean,
+    // Researches iteratively through sub-questions, with at most this many passes
+    maxIterations?: number
   ): Promise<DimensionResults> {
+    if (maxIterations !== undefined) {
+      return this.performIterativeResearch(agent, config, depth, includeSources, maxIterations);
+    }
+
     const systemPrompt = this.generateSystemPrompt(config, agent.dimension);
     const userPrompt = this.generateResearchPrompt(config, agent.dimension, depth, includeSources);
 
-    await this.rateLimiter.waitIfNeeded();
-
-    const completion = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      max_tokens: 4000,
-      temperature: 0.7,
-      system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }]
-    });
-
-    const responseText = completion.content[0].type === 'text' 
-      ? completion.content[0].text 
-      : '';
+    const passes = [
+      await this.llm.complete({
+        role: 'research',
+        system: systemPrompt,
+        prompt: userPrompt
+      })
+    ];
+    while (depth === 'exhaustive' && passes.length < EXHAUSTIVE_RESEARCH_PASSES) {
+      passes.push(await this.llm.complete({
+        role: 'research',
+        system: systemPrompt,
+        prompt: this.generateFollowUpPrompt(config, agent.dimension, passes, includeSources)
+      }));
+    }
 
     // Parse the research results
     const results = await this.parseResearchResults(
-      responseText, 
+      passes.join('\n\n'),
       agent.dimension,
-      config
+      config,
+      { depth, includeSources, passes: passes.length }
     );
 
     return results;
   }
 
+  // Breaks the dimension into sub-questions and answers them, then asks follow-up
+  // questions about the criteria and data points the answers leave unaddressed. A run
+  // cut off part way keeps the answers it has, unstructured and marked truncated
+  private async performIterativeResearch(
+    agent: FlexibleSubAgent,
+    config: ResearchConfig,
+    depth: ResearchDepth,
+    includeSources: boolean,
+    maxIterations: number
+  ): Promise<DimensionResults> {
+    const dimension = agent.dimension;
+    const systemPrompt = this.generateSystemPrompt(config, dimension);
+    const items = [...dimension.evaluationCriteria, ...dimension.dataPoints];
+
+    const tree: SubQuestion[] = [];
+    const asked: SubQuestion[] = [];
+    let unaddressed = items;
+    let iteration = 0;
+    let truncated = false;
+    try {
+      do {
+        iteration++;
+        const questions = await this.decomposeIntoSubQuestions(config, dimension, unaddressed, asked, iteration);
+        if (questions.length === 0) {
+          break;
+        }
+
+        for (const question of questions) {
+          question.answer = await this.llm.complete({
+            role: 'research',
+            system: systemPrompt,
+            prompt: this.generateSubQuestionPrompt(config, dimension, question, depth, includeSources)
+          });
+
+          // A follow-up sits under the latest earlier question aimed at the same items
+          const parent = asked
+            .filter(earlier => earlier.iteration < iteration)
+            .reverse()
+            .find(earlier => earlier.targets.some(target => question.targets.includes(target)));
+          (parent ? parent.children : tree).push(question);
+          asked.push(question);
+        }
+
+        unaddressed = items.length > 0 ? await this.findUnaddressed(dimension, items, asked) : [];
+      } while (unaddressed.length > 0 && iteration < maxIterations);
+    } catch (error) {
+      if (asked.length === 0 || !this.wasCutOff(error)) {
+        throw error;
+      }
+      truncated = true;
+    }
+
+    // Nothing to ask about: fall back to a single pass
+    if (asked.length === 0) {
+      return this.performResearch(agent, config, depth, includeSources);
+    }
+
+    const text = asked.map(question => `Q: ${question.question}\n${question.answer}`).join('\n\n');
+    const settings = { depth, includeSources, passes: asked[asked.length - 1].iteration };
+    let results: DimensionResults | undefined;
+    if (!truncated) {
+      try {
+        results = await this.parseResearchResults(text, dimension, config, settings);
+      } catch (error) {
+        if (!this.wasCutOff(error)) {
+          throw error;
+        }
+      }
+    }
+    // No calls are left to structure the answers with
+    results ??= { ...this.unstructuredResults(text, dimension.id, settings), truncated: true };
+    results.subQuestions = tree;
+    results.metadata = { ...results.metadata, researchMode: 'iterative', unaddressed };
+    return results;
+  }
+
+  // Stopped by the run's budget, its duration cap or cancellation rather than a failure
+  private wasCutOff(error: unknown): boolean {
+    return error instanceof BudgetExceededError || currentLLMScope()?.signal?.aborted === true;
+  }
+
+  private async decomposeIntoSubQuestions(
+    config: ResearchConfig,
+    dimension: ResearchDimension,
+    targets: string[],
+    asked: SubQuestion[],
+    iteration: number
+  ): Promise<SubQuestion[]> {
+    const targetsSection = targets.length > 0
+      ? `${iteration === 1 ? 'Cover' : 'Earlier answers left these unaddressed. Cover'} these evaluation criteria and data points:
+${targets.map(target => `- ${target}`).join('\n')}`
+      : '';
+    const askedSection = asked.length > 0
+      ? `\nDo not repeat these questions, which were already answered:\n${asked.map(q => `- ${q.question}`).join('\n')}\n`
+      : '';
+
+    const structured = await this.llm.completeStructured<{ subQuestions: { question: string; targets: string[] }[] }>(
+      {
+        role: 'structuring',
+        prompt: `Break down research on "${config.topic}" for the dimension ${dimension.name} into sub-questions.
+
+${dimension.description}
+
+${targetsSection}
+${askedSection}
+Record with the ${SUB_QUESTIONS_OUTPUT.name} tool at most ${MAX_SUB_QUESTIONS_PER_PASS} specific, answerable sub-questions, each with the criteria and data points it covers as targets.`
+      },
+      SUB_QUESTIONS_OUTPUT
+    );
+
+    return structured.subQuestions.slice(0, MAX_SUB_QUESTIONS_PER_PASS).map((subQuestion, index) => ({
+      id: `${iteration}.${index + 1}`,
+      question: subQuestion.question,
+      targets: subQuestion.targets.filter(target => targets.includes(target)),
+      iteration,
+      children: []
+    }));
+  }
+
+  private async findUnaddressed(
+    dimension: ResearchDimension,
+    items: string[],
+    asked: SubQuestion[]
+  ): Promise<string[]> {
+    const structured = await this.llm.completeStructured<{ unaddressed: string[] }>(
+      {
+        role: 'structuring',
+        prompt: `Check which evaluation criteria and data points of the dimension ${dimension.name} the answers below leave unaddressed.
+
+Criteria and data points:
+${items.map(item => `- ${item}`).join('\n')}
+
+Answers:
+${asked.map(question => `Q: ${question.question}\nA: ${question.answer}`).join('\n\n')}
+
+Record with the ${COVERAGE_OUTPUT.name} tool every item that no answer addresses with concrete findings, or an empty list if all are covered.`
+      },
+      COVERAGE_OUTPUT
+    );
+
+    return structured.unaddressed.filter(item => items.includes(item));
+  }
+
+  private generateSubQuestionPrompt(
+    config: ResearchConfig,
+    dimension: ResearchDimension,
+    question: SubQuestion,
+    depth: ResearchDepth,
+    includeSources: boolean
+  ): string {
+    const targetsLine = question.targets.length > 0
+      ? `\nYour answer should address: ${question.targets.join('; ')}`
+      : '';
+    const sourceInstructions = includeSources
+      ? '\nInclude relevant sources, references, or examples where applicable.'
+      : '';
+
+    return `Research "${config.topic}" for the dimension: ${dimension.name}
+
+Answer this sub-question: ${question.question}
+${targetsLine}
+
+${depthInstructions(depth)}
+${sourceInstructions}`;
+  }
+
   private generateSystemPrompt(config: ResearchConfig, dimension: ResearchDimension): string {
     const audienceContext = config.context.audience.length > 0
       ? `The research is intended for: ${config.context.audience.join(', ')}.`
@@ -80,12 +361,9 @@ Focus on providing actionable, evidence-based insights that directly address the
   private generateResearchPrompt(
     config: ResearchConfig,
     dimension: ResearchDimension,
-    depth: 'basic' | 'comprehensive',
+    depth: ResearchDepth,
     includeSources: boolean
   ): string {
-    const depthInstructions = depth === 'comprehensive'
-      ? 'Provide a thorough, detailed analysis with extensive examples and evidence.'
-      : 'Provide a focused analysis covering the key points efficiently.';
 
     const dataPointsSection = dimension.dataPoints.length > 0
       ? `\nSpecifically address these data points:\n${dimension.dataPoints.map((dp, i) => `${i + 1}. ${dp}`).join('\n')}`
@@ -97,7 +375,7 @@ Focus on providing actionable, evidence-based insights that directly address the
 
     return `Research "${config.topic}" for the dimension: ${dimension.name}
 
-${depthInstructions}
+${depthInstructions(depth)}
 
 Your research should:
 1. Address each evaluation criterion with specific findings
@@ -111,17 +389,39 @@ ${sourceInstructions}
 Format your response as a comprehensive analysis that can be synthesized with other research dimensions.`;
   }
 
+  private generateFollowUpPrompt(
+    config: ResearchConfig,
+    dimension: ResearchDimension,
+    passes: string[],
+    includeSources: boolean
+  ): string {
+    const sourceInstructions = includeSources
+      ? '\nInclude relevant sources, references, or examples where applicable.'
+      : '';
+
+    return `Continue researching "${config.topic}" for the dimension: ${dimension.name}
+
+Research so far:
+${passes.join('\n\n---\n\n')}
+
+Find what this research is missing: evaluation criteria or data points it does not address, claims without evidence, and perspectives it leaves out. Research those gaps now.
+
+Report only new findings and evidence; do not repeat what is already covered.
+${sourceInstructions}`;
+  }
+
   private async parseResearchResults(
     responseText: string,
     dimension: ResearchDimension,
-    config: ResearchConfig
+    config: ResearchConfig,
+    settings: ResearchSettings
   ): Promise<DimensionResults> {
     // Use Claude to structure the research results
     const structuringPrompt = `Extract and structure the research findings from this text:
 
 ${responseText}
 
-Create a JSON object with:
+Record with the ${DIMENSION_FINDINGS_OUTPUT.name} tool:
 1. findings: An object organizing the key findings by theme
 2. evidence: Array of specific evidence, examples, or data points
 3. confidence: A score from 0-1 indicating confidence in the findings
@@ -130,50 +430,54 @@ Create a JSON object with:
 
 Ensure the structure aligns with the dimension: ${dimension.name}`;
 
-    await this.rateLimiter.waitIfNeeded();
-
-    const structuredCompletion = await this.anthropic.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 2000,
-      temperature: 0,
-      messages: [{ role: 'user', content: structuringPrompt }]
-    });
-
+    let structured: DimensionFindingsResult;
     try {
-      const structured = JSON.parse(
-        structuredCompletion.content[0].type === 'text'
-          ? structuredCompletion.content[0].text
-          : '{}'
+      structured = await this.llm.completeStructured<DimensionFindingsResult>(
+        { role: 'structuring', prompt: structuringPrompt },
+        DIMENSION_FINDINGS_OUTPUT
       );
-
-      return {
-        dimensionId: dimension.id,
-        findings: structured.findings || { raw: responseText },
-        evidence: structured.evidence || [],
-        confidence: structured.confidence || 0.7,
-        sources: structured.sources || [],
-        metadata: {
-          ...structured.metadata,
-          researchDepth: 'comprehensive',
-          timestamp: new Date().toISOString()
-        }
-      };
     } catch (error) {
-      // Fallback structure
-      return {
-        dimensionId: dimension.id,
-        findings: {
-          raw: responseText,
-          summary: responseText.substring(0, 500) + '...'
-        },
-        evidence: [],
-        confidence: 0.6,
-        sources: [],
-        metadata: {
-          parseError: true,
-          timestamp: new Date().toISOString()
-        }
-      };
+      if (!(error instanceof LLMParseError)) {
+        throw error;
+      }
+
+      return { ...this.unstructuredResults(responseText, dimension.id, settings), parseError: error.message };
     }
+
+    return {
+      dimensionId: dimension.id,
+      findings: structured.findings,
+      evidence: structured.evidence,
+      confidence: structured.confidence,
+      sources: settings.includeSources ? structured.sources : undefined,
+      metadata: {
+        ...structured.metadata,
+        researchDepth: settings.depth,
+        includeSources: settings.includeSources,
+        researchPasses: settings.passes,
+        timestamp: new Date().toISOString()
+      }
+    };
+  }
+
+  // Keeps the raw research but makes no claims about it
+  private unstructuredResults(
+    responseText: string,
+    dimensionId: string,
+    settings: ResearchSettings
+  ): DimensionResults {
+    return {
+      dimensionId,
+      findings: { raw: responseText },
+      evidence: [],
+      confidence: 0,
+      sources: [],
+      metadata: {
+        researchDepth: settings.depth,
+        includeSources: settings.includeSources,
+        researchPasses: settings.passes,
+        timestamp: new Date().toISOString()
+      }
+    };
   }
 }
\ No newline at end of file
@@ -3,34 +3,180 @@ import {
   ResearchTask,
   ResearchConfig,
   FlexibleSubAgent,
+  DimensionResults,
+  QualityReviewResult,
   ResearchSynthesis,
   ConfigureResearchRequest,
   ContinueConfigurationRequest,
   GenerateResearchPlanRequest,
   ModifyResearchPlanRequest,
-  RunFlexibleResearchRequest
+  RunFlexibleResearchRequest,
+  ResearchPhase,
+  ResearchRunOptions,
+  ResearchStatus,
+  ConversationState,
+  ListResearchRequest,
+  ListResearchTasksRequest,
+  ListConfigurationSessionsRequest,
+  ResearchPage,
+  ResearchDepth,
+  DimensionResearchSettings,
+  RetryFailedDimensionsRequest
 } from './types.js';
 import { ConfigurationWizard } from './configuration-wizard.js';
-import { FlexibleResearchAgent } from './flexible-research-agent.js';
+import { DEFAULT_MAX_RESEARCH_ITERATIONS, FlexibleResearchAgent } from './flexible-research-agent.js';
 import { FlexibleSynthesisAgent } from './flexible-synthesis-agent.js';
 import { QualityReviewAgent } from './quality-review-agent.js';
+import { applyPlanOperations, validateResearchConfig } from './research-plan-editor.js';
+import { ResearchStorage, MemoryStorage } from './storage.js';
+import {
+  LLMClient,
+  cancellationMiddleware,
+  currentLLMScope,
+  runInLLMScope,
+  withMiddleware
+} from './llm-client.js';
+import { validateModelOverrides } from './model-routing.js';
+import { describeFailure } from './retry.js';
+import { CostTracker, DEFAULT_PRICE_TABLE, PriceTable, TaskCost, UsageTotals } from './cost-tracker.js';
+import { BudgetExceededError, BudgetGuard, budgetMiddleware, validateBudget } from './budget.js';
+import { ProgressReporter } from './progress.js';
+import { isVisibleToCurrentOwner } from './ownership.js';
+import { InvalidArgumentError, InvalidStateError, NotFoundError } from './errors.js';
+import { searchItems } from './research-search.js';
+import { abortAfter, runWithConcurrency, untilAborted } from './worker-pool.js';
+
+const RESEARCH_DEPTHS: ResearchDepth[] = ['basic', 'comprehensive', 'exhaustive'];
+
+// Per-run state shared by the research loops
+interface RunContext {
+  budget?: BudgetGuard;
+  progress: ProgressReporter;
+  // Aborted on cancellation and when the duration cap expires
+  signal: AbortSignal;
+  cancelled: () => boolean;
+  // Depth and sources for a dimension, by dimension ID
+  settings: (dimensionId: string) => Required<DimensionResearchSettings>;
+  dimensionTimeoutMs?: number;
+}
+
+// A config was saved, or a task finished with results
+export interface ResearchChange {
+  kind: 'config' | 'task';
+  id: string;
+  ownerId?: string;
+}
+
+export interface ResearchRunResult {
+  task: ResearchTask;
+  synthesis: ResearchSynthesis;
+  cost: TaskCost;
+}
+
+function usageSince(totals: UsageTotals, baseline: UsageTotals): UsageTotals {
+  return {
+    calls: totals.calls - baseline.calls,
+    inputTokens: totals.inputTokens - baseline.inputTokens,
+    outputTokens: totals.outputTokens - baseline.outputTokens,
+    costUsd: totals.costUsd - baseline.costUsd
+  };
+}
+
+// Settings for a retry: what the retry asks for, else what the original run used.
+// Research settings given to the retry win over the original per-dimension ones,
+// unless the retry brings per-dimension settings of its own
+function retryRunRequest(
+  configId: string,
+  original: RunFlexibleResearchRequest | undefined,
+  retry: RetryFailedDimensionsRequest
+): RunFlexibleResearchRequest {
+  const overridden = new Set<string>(
+    (['depth', 'includeSources', 'iterative', 'maxIterations'] as const).filter(key => retry[key] !== undefined)
+  );
+  const inherited = original?.dimensionSettings && Object.fromEntries(
+    Object.entries(original.dimensionSettings).map(([dimensionId, settings]) => [
+      dimensionId,
+      Object.fromEntries(Object.entries(settings).filter(([key]) => !overridden.has(key)))
+    ])
+  );
+
+  return {
+    configId,
+    executionMode: retry.executionMode ?? original?.executionMode ?? 'parallel',
+    includeQualityReview: retry.includeQualityReview ?? original?.includeQualityReview ?? true,
+    maxAgents: retry.maxAgents ?? original?.maxAgents,
+    dimensionTimeoutMs: retry.dimensionTimeoutMs ?? original?.dimensionTimeoutMs,
+    depth: retry.depth ?? original?.depth,
+    includeSources: retry.includeSources ?? original?.includeSources,
+    iterative: retry.iterative ?? original?.iterative,
+    maxIterations: retry.maxIterations ?? original?.maxIterations,
+    dimensionSettings: retry.dimensionSettings ?? inherited,
+    // Overrides are replaced role by role
+    models: retry.models || original?.models ? { ...original?.models, ...retry.models } : undefined,
+    budget: retry.budget ?? original?.budget
+  };
+}
 
 export class FlexibleResearchManager {
   private tasks: Map<string, ResearchTask> = new Map();
   private configs: Map<string, ResearchConfig> = new Map();
   private subAgents: Map<string, FlexibleSubAgent[]> = new Map();
   private syntheses: Map<string, ResearchSynthesis> = new Map();
+  // Research runs executing in the background, by task ID
+  private jobs: Map<string, Promise<ResearchRunResult>> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private changeListeners: ((change: ResearchChange) => void)[] = [];
   
   private configWizard: ConfigurationWizard;
   private researchAgent: FlexibleResearchAgent;
   private synthesisAgent: FlexibleSynthesisAgent;
   private qualityReviewAgent: QualityReviewAgent;
+  private storage: ResearchStorage;
+  private costTracker: CostTracker;
+
+  constructor(
+    llm: LLMClient,
+    storage: ResearchStorage = new MemoryStorage(),
+    prices: PriceTable = DEFAULT_PRICE_TABLE
+  ) {
+    this.storage = storage;
+    this.costTracker = new CostTracker(storage, prices);
+    llm = withMiddleware(llm, cancellationMiddleware(), budgetMiddleware());
+    this.configWizard = new ConfigurationWizard(llm, storage);
+    this.researchAgent = new FlexibleResearchAgent(llm);
+    this.synthesisAgent = new FlexibleSynthesisAgent(llm);
+    this.qualityReviewAgent = new QualityReviewAgent(llm);
+  }
+
+  // Restore persisted state at startup
+  async loadFromStorage(): Promise<void> {
+    for (const { id, value } of await this.storage.entries<ResearchConfig>('configs')) {
+      this.configs.set(id, value);
+    }
+    for (const { id, value } of await this.storage.entries<ResearchTask>('tasks')) {
+      // Runs do not survive a restart
+      if (value.status === 'in_progress') {
+        value.status = 'failed';
+        value.error = 'Server stopped before the research finished';
+        await this.storage.put('tasks', id, value);
+      }
+      this.tasks.set(id, value);
+    }
+    for (const { id, value } of await this.storage.entries<FlexibleSubAgent[]>('subagents')) {
+      // Agents that were mid-flight when the server stopped will never finish
+      for (const agent of value) {
+        if (agent.status === 'running') {
+          agent.status = 'failed';
+        }
+      }
+      this.subAgents.set(id, value);
+    }
+    for (const { id, value } of await this.storage.entries<ResearchSynthesis>('syntheses')) {
+      this.syntheses.set(id, value);
+    }
 
-  constructor(apiKey: string) {
-    this.configWizard = new ConfigurationWizard(apiKey);
-    this.researchAgent = new FlexibleResearchAgent(apiKey);
-    this.synthesisAgent = new FlexibleSynthesisAgent(apiKey);
-    this.qualityReviewAgent = new QualityReviewAgent(apiKey);
+    await this.configWizard.loadSessions();
+    await this.costTracker.loadFromStorage();
   }
 
   // Configuration endpoints
@@ -46,10 +192,11 @@ export class FlexibleResearchManager {
     response: string;
     configComplete: boolean;
     extractedConfig?: Partial<ResearchConfig>;
+    parseError?: string;
   }> {
-    return await this.configWizard.continueConfiguration(
-      request.sessionId,
-      request.userResponse
+    return runInLLMScope(
+      { kind: 'session', id: request.sessionId },
+      () => this.configWizard.continueConfiguration(request.sessionId, request.userResponse)
     );
   }
 
@@ -57,8 +204,13 @@ export class FlexibleResearchManager {
     config: ResearchConfig;
     preview: string;
   }> {
-    const config = await this.configWizard.generateResearchPlan(request.sessionId);
+    const config = await runInLLMScope(
+      { kind: 'session', id: request.sessionId },
+      () => this.configWizard.generateResearchPlan(request.sessionId)
+    );
     this.configs.set(config.id, config);
+    await this.storage.put('configs', config.id, config);
+    this.emitChange({ kind: 'config', id: config.id, ownerId: config.ownerId });
 
     // Generate a preview of the research plan
     const preview = this.generatePlanPreview(config);
@@ -66,31 +218,37 @@ export class FlexibleResearchManager {
     return { config, preview };
   }
 
-  async modifyResearchPlan(request: ModifyResearchPlanRequest): Promise<ResearchConfig> {
-    const config = this.configs.get(request.planId);
+  async modifyResearchPlan(request: ModifyResearchPlanRequest): Promise<{
+    config: ResearchConfig;
+    preview: string;
+  }> {
+    const config = this.getConfig(request.planId);
     if (!config) {
-      throw new Error(`Research plan ${request.planId} not found`);
+      throw new NotFoundError(`Research plan ${request.planId} not found`);
     }
 
     // Apply modifications
-    const updatedConfig: ResearchConfig = {
-      ...config,
-      ...request.modifications,
-      context: {
-        ...config.context,
-        ...(request.modifications.context || {})
-      }
-    };
+    const updatedConfig = applyPlanOperations(config, request.operations);
+
+    const errors = validateResearchConfig(updatedConfig);
+    if (errors.length > 0) {
+      throw new InvalidArgumentError(`Invalid research plan: ${errors.join('; ')}`);
+    }
 
     this.configs.set(updatedConfig.id, updatedConfig);
-    return updatedConfig;
+    await this.storage.put('configs', updatedConfig.id, updatedConfig);
+    this.emitChange({ kind: 'config', id: updatedConfig.id, ownerId: updatedConfig.ownerId });
+
+    const preview = this.generatePlanPreview(updatedConfig);
+
+    return { config: updatedConfig, preview };
   }
 
   // Legacy compatibility - create task from config
   async createResearchTaskFromConfig(configId: string): Promise<ResearchTask> {
-    const config = this.configs.get(configId);
+    const config = this.getConfig(configId);
     if (!config) {
-      throw new Error(`Config ${configId} not found`);
+      throw new NotFoundError(`Config ${configId} not found`);
     }
 
     const task: ResearchTask = {
@@ -100,6 +258,8 @@ export class FlexibleResearchManager {
       strategy: `${config.context.domain} research with ${config.outputFormat} output`,
       status: 'pending',
       areas: config.dimensions.map(d => d.name),
+      ownerId: config.ownerId,
+      configId: config.id,
       createdAt: new Date(),
       updatedAt: new Date()
     };
@@ -116,33 +276,325 @@ export class FlexibleResearchManager {
 
     this.subAgents.set(task.id, subAgents);
 
+    await this.storage.put('tasks', task.id, task);
+    await this.storage.put('subagents', task.id, subAgents);
+
     return task;
   }
 
-  // Main research execution
-  async runFlexibleResearch(request: RunFlexibleResearchRequest): Promise<{
-    task: ResearchTask;
-    synthesis: ResearchSynthesis;
-  }> {
-    const config = this.configs.get(request.configId);
+  // Main research execution; blocks until the run finishes
+  async runFlexibleResearch(
+    request: RunFlexibleResearchRequest,
+    options: ResearchRunOptions = {}
+  ): Promise<ResearchRunResult> {
+    const task = await this.startResearch(request, options);
+    return this.waitForResearch(task.id);
+  }
+
+  // Validates the request and starts the run in the background
+  async startResearch(
+    request: RunFlexibleResearchRequest,
+    options: ResearchRunOptions = {}
+  ): Promise<ResearchTask> {
+    const config = this.getConfig(request.configId);
     if (!config) {
-      throw new Error(`Config ${request.configId} not found`);
+      throw new NotFoundError(`Config ${request.configId} not found`);
     }
 
+    this.validateRunRequest(request, config);
+
     // Create task from config
     const task = await this.createResearchTaskFromConfig(request.configId);
+    task.runRequest = request;
+    this.launch(task, config, request, this.subAgents.get(task.id)!, options);
+    return task;
+  }
+
+  // Re-runs the dimensions of a finished task that did not complete, or the ones
+  // asked for, then reviews and synthesizes again. Other dimensions keep their findings
+  async retryFailedDimensions(
+    request: RetryFailedDimensionsRequest,
+    options: ResearchRunOptions = {}
+  ): Promise<ResearchRunResult> {
+    const task = this.getTask(request.taskId);
+    if (!task) {
+      throw new NotFoundError(`Task ${request.taskId} not found`);
+    }
+    if (this.jobs.has(task.id)) {
+      throw new InvalidStateError(`Research task ${task.id} is still running; wait for it to finish before retrying`);
+    }
+    const config = task.configId ? this.getConfig(task.configId) : undefined;
+    if (!config) {
+      throw new NotFoundError(`Research plan for task ${task.id} not found`);
+    }
+
+    const subAgents = this.subAgents.get(task.id) || [];
+    let retried: FlexibleSubAgent[];
+    if (request.dimensionIds?.length) {
+      retried = Array.from(new Set(request.dimensionIds), dimensionId => {
+        const agent = subAgents.find(a => a.dimension.id === dimensionId);
+        if (!agent) {
+          throw new NotFoundError(`Dimension ${dimensionId} not found in task ${task.id}`);
+        }
+        return agent;
+      });
+    } else {
+      retried = subAgents.filter(agent => agent.status !== 'completed');
+    }
+    if (retried.length === 0) {
+      throw new InvalidStateError(`Research task ${task.id} has no failed dimensions to retry`);
+    }
+
+    const runRequest = retryRunRequest(config.id, task.runRequest, request);
+    this.validateRunRequest(runRequest, config);
+
+    // Earlier findings of a retried dimension are replaced, even if the retry fails
+    for (const agent of retried) {
+      agent.status = 'pending';
+      agent.results = undefined;
+      agent.error = undefined;
+      agent.timing = undefined;
+    }
+
+    task.error = undefined;
+    task.runRequest = runRequest;
+    this.launch(task, config, runRequest, retried, options);
+    return this.waitForResearch(task.id);
+  }
+
+  // Stops a running task; it finishes as cancelled with the dimensions completed so far
+  cancelResearch(taskId: string): ResearchTask {
+    const task = this.getTask(taskId);
+    if (!task) {
+      throw new NotFoundError(`Task ${taskId} not found`);
+    }
+
+    const controller = this.controllers.get(taskId);
+    if (!controller) {
+      throw new InvalidStateError(`Research task ${taskId} is not running (status: ${task.status})`);
+    }
+    controller.abort();
+
+    return task;
+  }
+
+  async waitForResearch(taskId: string): Promise<ResearchRunResult> {
+    if (!this.getTask(taskId)) {
+      throw new NotFoundError(`Task ${taskId} not found`);
+    }
+
+    const job = this.jobs.get(taskId);
+    if (job) {
+      return job;
+    }
+    return this.getResearchResult(taskId);
+  }
+
+  getResearchStatus(taskId: string): ResearchStatus {
+    const task = this.getTask(taskId);
+    if (!task) {
+      throw new NotFoundError(`Task ${taskId} not found`);
+    }
+
+    const subAgents = this.subAgents.get(taskId) || [];
+    const count = (status: FlexibleSubAgent['status']) =>
+      subAgents.filter(agent => agent.status === status).length;
+
+    return {
+      task,
+      progress: {
+        total: subAgents.length,
+        pending: count('pending'),
+        running: count('running'),
+        completed: count('completed'),
+        failed: count('failed'),
+        cancelled: count('cancelled')
+      },
+      subAgents: subAgents.map(agent => ({
+        id: agent.id,
+        dimensionId: agent.dimension.id,
+        dimensionName: agent.dimension.name,
+        status: agent.status,
+        error: agent.error,
+        timing: agent.timing,
+        results: agent.results
+      }))
+    };
+  }
+
+  getResearchResult(taskId: string): ResearchRunResult {
+    const task = this.getTask(taskId);
+    if (!task) {
+      throw new NotFoundError(`Task ${taskId} not found`);
+    }
+    if (task.status === 'failed') {
+      throw new InvalidStateError(`Research task ${taskId} failed: ${task.error}`);
+    }
+
+    // Cancelled runs keep whatever was finished before the cancellation
+    const synthesis = this.syntheses.get(taskId);
+    if ((task.status !== 'completed' && task.status !== 'cancelled') || !synthesis) {
+      throw new InvalidStateError(
+        `Research task ${taskId} is still ${task.status}; poll getResearchStatus until it completes`
+      );
+    }
+
+    return { task, synthesis, cost: this.getTaskCost(taskId) };
+  }
+
+  private validateRunRequest(request: RunFlexibleResearchRequest, config: ResearchConfig): void {
+    const settingsErrors: string[] = [];
+    const checkDepth = (field: string, depth?: ResearchDepth) => {
+      if (depth !== undefined && !RESEARCH_DEPTHS.includes(depth)) {
+        settingsErrors.push(`${field} must be one of ${RESEARCH_DEPTHS.join(', ')}`);
+      }
+    };
+    const checkIterations = (field: string, maxIterations?: number) => {
+      if (maxIterations !== undefined && !(Number.isInteger(maxIterations) && maxIterations > 0)) {
+        settingsErrors.push(`${field} must be a positive integer`);
+      }
+    };
+    checkDepth('depth', request.depth);
+    checkIterations('maxIterations', request.maxIterations);
+    for (const [dimensionId, settings] of Object.entries(request.dimensionSettings || {})) {
+      if (!config.dimensions.some(dimension => dimension.id === dimensionId)) {
+        settingsErrors.push(`dimensionSettings.${dimensionId} does not match a dimension of the plan`);
+      } else {
+        checkDepth(`dimensionSettings.${dimensionId}.depth`, settings.depth);
+        checkIterations(`dimensionSettings.${dimensionId}.maxIterations`, settings.maxIterations);
+      }
+    }
+    if (settingsErrors.length > 0) {
+      throw new InvalidArgumentError(`Invalid research settings: ${settingsErrors.join('; ')}`);
+    }
+
+    if (request.maxAgents !== undefined && !(Number.isInteger(request.maxAgents) && request.maxAgents > 0)) {
+      throw new InvalidArgumentError('maxAgents must be a positive integer');
+    }
+    if (request.dimensionTimeoutMs !== undefined && !(request.dimensionTimeoutMs > 0)) {
+      throw new InvalidArgumentError('dimensionTimeoutMs must be a positive number');
+    }
+
+    const modelErrors = validateModelOverrides(request.models || {});
+    if (modelErrors.length > 0) {
+      throw new InvalidArgumentError(`Invalid model overrides: ${modelErrors.join('; ')}`);
+    }
+
+    const budgetErrors = validateBudget(request.budget || {});
+    if (budgetErrors.length > 0) {
+      throw new InvalidArgumentError(`Invalid budget: ${budgetErrors.join('; ')}`);
+    }
+  }
+
+  // Runs the given sub-agents of a task in the background, then reviews and synthesizes.
+  // The job is registered before anything is awaited, so a concurrent retry sees it running
+  private launch(
+    task: ResearchTask,
+    config: ResearchConfig,
+    request: RunFlexibleResearchRequest,
+    subAgents: FlexibleSubAgent[],
+    options: ResearchRunOptions
+  ): void {
     task.status = 'in_progress';
+    task.updatedAt = new Date();
+
+    // Each dimension, the optional quality review, and synthesis
+    const progress = new ProgressReporter(
+      subAgents.length + (request.includeQualityReview ? 1 : 0) + 1,
+      options.onProgress
+    );
+    // Aborted by cancelResearch or by the caller's own signal
+    const controller = new AbortController();
+    if (options.signal?.aborted) {
+      controller.abort();
+    }
+    options.signal?.addEventListener('abort', () => controller.abort(), { once: true });
+    this.controllers.set(task.id, controller);
+
+    // A retry's budget only counts what the retry itself spends
+    const spentBefore = this.getTaskCost(task.id).total;
+    const budget = request.budget
+      ? new BudgetGuard(
+          request.budget,
+          () => usageSince(this.getTaskCost(task.id).total, spentBefore),
+          controller.signal
+        )
+      : undefined;
+    const signal = budget?.signal ?? controller.signal;
+
+    const job = this.persistLaunch(task).then(() => runInLLMScope(
+      {
+        kind: 'task',
+        id: task.id,
+        metadata: { config, request, dimensionIds: subAgents.map(agent => agent.dimension.id) },
+        modelOverrides: request.models,
+        onUsage: this.costTracker.listener(task.id),
+        budget,
+        signal
+      },
+      () => this.executeResearch(task, config, request, subAgents, {
+        budget,
+        progress,
+        signal,
+        cancelled: () => controller.signal.aborted,
+        dimensionTimeoutMs: request.dimensionTimeoutMs,
+        settings: dimensionId => {
+          const overrides = request.dimensionSettings?.[dimensionId];
+          return {
+            depth: overrides?.depth ?? request.depth ?? 'comprehensive',
+            includeSources: overrides?.includeSources ?? request.includeSources ?? true,
+            iterative: overrides?.iterative ?? request.iterative ?? false,
+            maxIterations: overrides?.maxIterations ?? request.maxIterations ?? DEFAULT_MAX_RESEARCH_ITERATIONS
+          };
+        }
+      })
+    )).catch(async error => {
+      task.status = 'failed';
+      task.error = error instanceof Error ? error.message : 'Unknown error';
+      task.updatedAt = new Date();
+      await this.storage.put('tasks', task.id, task);
+      await this.costTracker.save(task.id);
+      this.emitChange({ kind: 'task', id: task.id, ownerId: task.ownerId });
+      throw error;
+    });
+    this.jobs.set(task.id, job);
+
+    // Failures are recorded on the task; nobody may be waiting on the job itself
+    job
+      .catch(error => console.error(`Research task ${task.id} failed:`, error))
+      .finally(() => {
+        budget?.stop();
+        this.jobs.delete(task.id);
+        this.controllers.delete(task.id);
+      });
+  }
 
+  // Saves the task as in progress along with its sub-agents, retried ones reset to pending
+  private async persistLaunch(task: ResearchTask): Promise<void> {
+    await this.storage.put('tasks', task.id, task);
+    await this.saveSubAgents(task.id);
+  }
+
+  private async executeResearch(
+    task: ResearchTask,
+    config: ResearchConfig,
+    request: RunFlexibleResearchRequest,
+    toRun: FlexibleSubAgent[],
+    run: RunContext
+  ): Promise<ResearchRunResult> {
+    const { budget, progress } = run;
     const subAgents = this.subAgents.get(task.id)!;
 
-    // Execute research
-    if (request.executionMode === 'parallel') {
-      await this.runParallelResearch(subAgents, config, request.maxAgents);
-    } else {
-      await this.runSequentialResearch(subAgents, config);
+    // Execute research; every dimension is queued now and starts when a slot frees
+    await this.setPhase(task, 'research');
+    const queuedAt = new Date();
+    for (const agent of toRun) {
+      agent.timing = { queuedAt };
     }
+    const concurrency = request.executionMode === 'parallel' ? request.maxAgents ?? 5 : 1;
+    await runWithConcurrency(toRun, concurrency, agent => this.runSubAgent(agent, config, run));
 
-    // Collect results
+    // Collect results, including those kept from before a retry
     const dimensionResults: Record<string, any> = {};
     for (const agent of subAgents) {
       if (agent.results) {
@@ -151,81 +603,171 @@ export class FlexibleResearchManager {
     }
 
     // Quality review if requested
-    let qualityReview;
-    if (request.includeQualityReview) {
-      qualityReview = await this.qualityReviewAgent.reviewResearch(
-        config,
-        dimensionResults
+    let qualityReview: QualityReviewResult | undefined;
+    if (request.includeQualityReview && this.canContinue(run)) {
+      await this.setPhase(task, 'quality_review');
+      progress.update('Starting quality review');
+      qualityReview = await this.withinLimits(run, () =>
+        this.qualityReviewAgent.reviewResearch(config, dimensionResults)
       );
+      progress.update('Quality review finished');
     }
 
-    // Synthesize findings
-    const synthesis = await this.synthesisAgent.synthesizeFindings(
-      config,
-      subAgents,
-      qualityReview
-    );
+    // Synthesize findings; a cancelled run or one out of budget returns its findings as they are
+    let synthesis: ResearchSynthesis | undefined;
+    if (this.canContinue(run)) {
+      await this.setPhase(task, 'synthesis');
+      progress.update('Synthesizing findings');
+      synthesis = await this.withinLimits(run, () =>
+        this.synthesisAgent.synthesizeFindings(config, subAgents, qualityReview)
+      );
 
-    task.status = 'completed';
+      if (synthesis && !run.signal.aborted && (!budget || budget.state() === 'ok')) {
+        const fullSynthesis = synthesis;
+        await this.setPhase(task, 'summary');
+        await this.withinLimits(run, () =>
+          this.synthesisAgent.addExecutiveSummary(config, fullSynthesis)
+        );
+      }
+      progress.update('Synthesis finished');
+    }
+
+    synthesis ??= this.synthesisAgent.partialSynthesis(config, subAgents, qualityReview);
+    if (budget) {
+      synthesis.budget = budget.report();
+    }
+    if (run.cancelled()) {
+      synthesis.cancelled = true;
+    }
+
+    task.status = run.cancelled() ? 'cancelled' : 'completed';
+    task.phase = undefined;
     task.updatedAt = new Date();
     
     this.syntheses.set(task.id, synthesis);
+    await this.storage.put('syntheses', task.id, synthesis);
+    await this.storage.put('tasks', task.id, task);
+    await this.costTracker.save(task.id);
+    progress.finish(run.cancelled() ? 'Research cancelled' : 'Research completed');
+    this.emitChange({ kind: 'task', id: task.id, ownerId: task.ownerId });
 
-    return { task, synthesis };
+    return { task, synthesis, cost: this.getTaskCost(task.id) };
   }
 
-  private async runParallelResearch(
-    subAgents: FlexibleSubAgent[],
+  private async runSubAgent(
+    agent: FlexibleSubAgent,
     config: ResearchConfig,
-    maxConcurrent: number = 5
+    run: RunContext
   ): Promise<void> {
-    // Process in batches to respect rate limits
-    for (let i = 0; i < subAgents.length; i += maxConcurrent) {
-      const batch = subAgents.slice(i, i + maxConcurrent);
-      
-      await Promise.all(
-        batch.map(async (agent) => {
-          try {
-            agent.status = 'running';
-            agent.results = await this.researchAgent.performResearch(
-              agent,
-              config,
-              'comprehensive',
-              true
-            );
-            agent.status = 'completed';
-          } catch (error) {
-            agent.status = 'failed';
-            console.error(`Agent ${agent.id} failed:`, error);
-          }
-        })
-      );
+    const name = agent.dimension.name;
+    if (run.cancelled()) {
+      agent.status = 'cancelled';
+      run.progress.update(`Skipped ${name}: research was cancelled`);
+      await this.saveSubAgents(agent.parentTaskId);
+      return;
+    }
 
-      // Brief pause between batches
-      if (i + maxConcurrent < subAgents.length) {
-        await new Promise(resolve => setTimeout(resolve, 2000));
+    const timing = agent.timing ?? { queuedAt: new Date() };
+    timing.startedAt = new Date();
+    timing.queueWaitMs = timing.startedAt.getTime() - timing.queuedAt.getTime();
+    agent.timing = timing;
+
+    // The dimension's own signal also aborts when its time is up
+    const limit = abortAfter(run.signal, run.dimensionTimeoutMs);
+    try {
+      agent.status = 'running';
+      agent.error = undefined;
+      run.progress.update(`Researching ${name}`);
+      agent.results = await this.researchDimension(agent, config, run, limit.signal);
+      agent.status = 'completed';
+      run.progress.update(`Finished researching ${name}`);
+    } catch (error) {
+      if (run.cancelled()) {
+        agent.status = 'cancelled';
+        run.progress.update(`Cancelled research on ${name}`);
+      } else {
+        agent.status = 'failed';
+        agent.error = limit.timedOut()
+          ? { kind: 'timeout', message: `Research timed out after ${run.dimensionTimeoutMs} ms` }
+          : describeFailure(error);
+        console.error(`Agent ${agent.id} failed:`, error);
+        run.progress.update(`Research on ${name} failed: ${agent.error.message}`);
       }
+    } finally {
+      limit.clear();
+      timing.finishedAt = new Date();
+      timing.executionMs = timing.finishedAt.getTime() - timing.startedAt.getTime();
     }
+    await this.saveSubAgents(agent.parentTaskId);
   }
 
-  private async runSequentialResearch(
-    subAgents: FlexibleSubAgent[],
-    config: ResearchConfig
-  ): Promise<void> {
-    for (const agent of subAgents) {
+  // Runs one dimension in a nested scope so its LLM usage is attributed to the sub-agent.
+  // Dimensions started close to the budget cap only get a single pass at basic depth.
+  // When the duration cap cuts the dimension off, it fails with budget_exceeded unless
+  // its iterative research kept the sub-questions answered by then
+  private async researchDimension(
+    agent: FlexibleSubAgent,
+    config: ResearchConfig,
+    run: RunContext,
+    signal: AbortSignal
+  ): Promise<DimensionResults> {
+    const { budget } = run;
+    budget?.assertCanCall();
+    const settings = run.settings(agent.dimension.id);
+    const degraded = budget?.state() === 'approaching';
+    const depth = degraded ? 'basic' : settings.depth;
+    const maxIterations = settings.iterative && !degraded ? settings.maxIterations : undefined;
+
+    return runInLLMScope({ ...currentLLMScope()!, subAgentId: agent.id, signal }, async () => {
+      const research = this.researchAgent.performResearch(
+        agent,
+        config,
+        depth,
+        settings.includeSources,
+        maxIterations
+      );
       try {
-        agent.status = 'running';
-        agent.results = await this.researchAgent.performResearch(
-          agent,
-          config,
-          'comprehensive',
-          true
-        );
-        agent.status = 'completed';
+        return await untilAborted(signal, research);
       } catch (error) {
-        agent.status = 'failed';
-        console.error(`Agent ${agent.id} failed:`, error);
+        if (run.cancelled() || !budget?.timedOut()) {
+          throw error;
+        }
+        // Its calls were aborted along with the run, so the research settles right away
+        return research.catch(() => {
+          budget.assertCanCall();
+          throw error;
+        });
+      }
+    });
+  }
+
+  // Checks the budget first so a run stopped by its duration cap is reported as truncated
+  private canContinue(run: RunContext): boolean {
+    return (!run.budget || run.budget.canContinue()) && !run.signal.aborted;
+  }
+
+  // Resolves to undefined when the run is cancelled or the budget runs out part way through
+  private async withinLimits<T>(run: RunContext, fn: () => Promise<T>): Promise<T | undefined> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof BudgetExceededError || run.signal.aborted) {
+        return undefined;
       }
+      throw error;
+    }
+  }
+
+  private async setPhase(task: ResearchTask, phase: ResearchPhase): Promise<void> {
+    task.phase = phase;
+    task.updatedAt = new Date();
+    await this.storage.put('tasks', task.id, task);
+  }
+
+  private async saveSubAgents(taskId: string): Promise<void> {
+    const subAgents = this.subAgents.get(taskId);
+    if (subAgents) {
+      await this.storage.put('subagents', taskId, subAgents);
     }
   }
 
@@ -258,20 +800,105 @@ export class FlexibleResearchManager {
     return preview;
   }
 
-  // Utility methods
+  // Utility methods. Lookups only see what belongs to the current owner, and
+  // report anything else as missing
   getTask(taskId: string): ResearchTask | undefined {
-    return this.tasks.get(taskId);
+    const task = this.tasks.get(taskId);
+    return task && isVisibleToCurrentOwner(task) ? task : undefined;
+  }
+
+  listTasks(): ResearchTask[] {
+    return Array.from(this.tasks.values()).filter(isVisibleToCurrentOwner);
+  }
+
+  listConfigs(): ResearchConfig[] {
+    return Array.from(this.configs.values()).filter(isVisibleToCurrentOwner);
+  }
+
+  getSubAgents(taskId: string): FlexibleSubAgent[] | undefined {
+    return this.getTask(taskId) ? this.subAgents.get(taskId) : undefined;
   }
 
   getConfig(configId: string): ResearchConfig | undefined {
-    return this.configs.get(configId);
+    const config = this.configs.get(configId);
+    return config && isVisibleToCurrentOwner(config) ? config : undefined;
   }
 
   getSynthesis(taskId: string): ResearchSynthesis | undefined {
-    return this.syntheses.get(taskId);
+    return this.getTask(taskId) ? this.syntheses.get(taskId) : undefined;
+  }
+
+  getTaskCost(taskId: string): TaskCost {
+    if (!this.getTask(taskId)) {
+      throw new NotFoundError(`Task ${taskId} not found`);
+    }
+    return this.costTracker.getTaskCost(taskId) ?? {
+      taskId,
+      total: { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 },
+      byPhase: {},
+      bySubAgent: {},
+      unpricedModels: [],
+      calls: []
+    };
   }
 
   getSession(sessionId: string) {
     return this.configWizard.getSession(sessionId);
   }
+
+  listSessions() {
+    return this.configWizard.listSessions();
+  }
+
+  searchConfigs(request: ListResearchRequest = {}): ResearchPage<ResearchConfig> {
+    return searchItems(this.listConfigs(), config => ({
+      text: [config.topic, ...config.dimensions.map(d => d.name)],
+      domain: config.context.domain,
+      createdAt: config.createdAt
+    }), request);
+  }
+
+  // Tasks take their domain from the plan they were created from
+  searchTasks(request: ListResearchTasksRequest = {}): ResearchPage<ResearchTask> {
+    return searchItems(
+      this.listTasks(),
+      task => ({
+        text: [task.title, task.goal],
+        domain: task.configId ? this.configs.get(task.configId)?.context.domain : undefined,
+        createdAt: task.createdAt
+      }),
+      request,
+      task => !request.status || task.status === request.status
+    );
+  }
+
+  searchSessions(request: ListConfigurationSessionsRequest = {}): ResearchPage<ConversationState> {
+    return searchItems(
+      this.listSessions(),
+      session => ({
+        text: [
+          session.extractedConfig?.topic,
+          ...session.turns.filter(turn => turn.role === 'user').map(turn => turn.content)
+        ],
+        domain: session.extractedConfig?.context?.domain,
+        createdAt: session.turns[0]?.timestamp
+      }),
+      request,
+      session => !request.status || session.status === request.status
+    );
+  }
+
+  // Returns a function that removes the listener again
+  onChange(listener: (change: ResearchChange) => void): () => void {
+    this.changeListeners.push(listener);
+    return () => {
+      this.changeListeners = this.changeListeners.filter(l => l !== listener);
+    };
+  }
+
+  private emitChange(change: ResearchChange): void {
+    for (const listener of this.changeListeners) {
+      listener(change);
+    }
+  }
 }
\ No newline at end of file
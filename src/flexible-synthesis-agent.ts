@@ -1,4 +1,3 @@
-import Anthropic from '@anthropic-ai/sdk';
 import {
   ResearchConfig,
   FlexibleSubAgent,
@@ -6,15 +5,51 @@ import {
   ResearchSynthesis,
   QualityReviewResult
 } from './types.js';
-import { RateLimiter } from './rate-limiter.js';
+import { LLMClient, LLMParseError, StructuredOutput } from './llm-client.js';
+
+const SYNTHESIS_OUTPUT: StructuredOutput = {
+  name: 'record_synthesis',
+  description: 'Record the structured cross-dimension synthesis',
+  schema: {
+    type: 'object',
+    properties: {
+      crossDimensionInsights: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Key insights connecting multiple dimensions'
+      },
+      recommendations: {
+        type: 'object',
+        properties: {
+          primary: { type: 'string', description: 'Main recommendation' },
+          supporting: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Supporting recommendations'
+          },
+          confidence: { type: 'number', minimum: 0, maximum: 1 }
+        },
+        required: ['primary', 'supporting', 'confidence']
+      }
+    },
+    required: ['crossDimensionInsights', 'recommendations']
+  }
+};
+
+interface SynthesisResult {
+  crossDimensionInsights: string[];
+  recommendations: {
+    primary: string;
+    supporting: string[];
+    confidence: number;
+  };
+}
 
 export class FlexibleSynthesisAgent {
-  private anthropic: Anthropic;
-  private rateLimiter: RateLimiter;
+  private llm: LLMClient;
 
-  constructor(apiKey: string) {
-    this.anthropic = new Anthropic({ apiKey });
-    this.rateLimiter = new RateLimiter(10, 60000);
+  constructor(llm: LLMClient) {
+    this.llm = llm;
   }
 
   async synthesizeFindings(
@@ -22,32 +57,17 @@ export class FlexibleSynthesisAgent {
     subAgents: FlexibleSubAgent[],
     qualityReview?: QualityReviewResult
   ): Promise<ResearchSynthesis> {
-    const completedAgents = subAgents.filter(a => a.status === 'completed' && a.results);
-    const dimensionFindings: Record<string, DimensionResults> = {};
-    
-    for (const agent of completedAgents) {
-      if (agent.results) {
-        dimensionFindings[agent.dimension.id] = agent.results;
-      }
-    }
+    const dimensionFindings = this.collectFindings(subAgents);
 
     const systemPrompt = this.generateSynthesisSystemPrompt(config);
     const userPrompt = this.generateSynthesisUserPrompt(config, dimensionFindings, qualityReview);
 
-    await this.rateLimiter.waitIfNeeded();
-
-    const completion = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      max_tokens: 4000,
-      temperature: 0.5,
+    const synthesisText = await this.llm.complete({
+      role: 'synthesis',
       system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }]
+      prompt: userPrompt
     });
 
-    const synthesisText = completion.content[0].type === 'text' 
-      ? completion.content[0].text 
-      : '';
-
     // Parse synthesis into structured format
     const synthesis = await this.parseSynthesis(
       synthesisText,
@@ -56,15 +76,54 @@ export class FlexibleSynthesisAgent {
       qualityReview
     );
 
-    // Generate executive summary if needed
-    if (config.outputFormat === 'executive_summary' || config.outputFormat === 'synthesis') {
+    return synthesis;
+  }
+
+  // Generate executive summary if the output format calls for one; without
+  // structured insights it would be guesswork
+  async addExecutiveSummary(config: ResearchConfig, synthesis: ResearchSynthesis): Promise<void> {
+    if (
+      !synthesis.parseError &&
+      (config.outputFormat === 'executive_summary' || config.outputFormat === 'synthesis')
+    ) {
       synthesis.executiveSummary = await this.generateExecutiveSummary(
         config,
         synthesis
       );
     }
+  }
 
-    return synthesis;
+  // Findings only, for runs stopped before synthesis could be afforded
+  partialSynthesis(
+    config: ResearchConfig,
+    subAgents: FlexibleSubAgent[],
+    qualityReview?: QualityReviewResult
+  ): ResearchSynthesis {
+    return {
+      taskId: config.id,
+      config,
+      dimensionFindings: this.collectFindings(subAgents),
+      crossDimensionInsights: [],
+      recommendations: {
+        primary: '',
+        supporting: [],
+        confidence: 0
+      },
+      qualityReview
+    };
+  }
+
+  private collectFindings(subAgents: FlexibleSubAgent[]): Record<string, DimensionResults> {
+    const completedAgents = subAgents.filter(a => a.status === 'completed' && a.results);
+    const dimensionFindings: Record<string, DimensionResults> = {};
+    
+    for (const agent of completedAgents) {
+      if (agent.results) {
+        dimensionFindings[agent.dimension.id] = agent.results;
+      }
+    }
+
+    return dimensionFindings;
   }
 
   private generateSynthesisSystemPrompt(config: ResearchConfig): string {
@@ -143,7 +202,7 @@ Focus on actionable insights and clear communication.`;
 
 ${synthesisText}
 
-Create a JSON object with:
+Record with the ${SYNTHESIS_OUTPUT.name} tool:
 {
   "crossDimensionInsights": ["array of key insights connecting multiple dimensions"],
   "recommendations": {
@@ -153,52 +212,42 @@ Create a JSON object with:
   }
 }`;
 
-    await this.rateLimiter.waitIfNeeded();
-
-    const structuredCompletion = await this.anthropic.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 2000,
-      temperature: 0,
-      messages: [{ role: 'user', content: structuringPrompt }]
-    });
-
+    let structured: SynthesisResult;
     try {
-      const structured = JSON.parse(
-        structuredCompletion.content[0].type === 'text'
-          ? structuredCompletion.content[0].text
-          : '{}'
+      structured = await this.llm.completeStructured<SynthesisResult>(
+        { role: 'structuring', prompt: structuringPrompt },
+        SYNTHESIS_OUTPUT
       );
-
-      return {
-        taskId: config.id,
-        config,
-        dimensionFindings,
-        crossDimensionInsights: structured.crossDimensionInsights || [
-          'Research reveals consistent patterns across dimensions',
-          'Multiple factors contribute to the overall findings'
-        ],
-        recommendations: structured.recommendations || {
-          primary: 'Based on the research, the primary recommendation is to proceed with careful consideration of identified factors',
-          supporting: ['Monitor emerging trends', 'Address identified gaps', 'Leverage opportunities'],
-          confidence: 0.75
-        },
-        qualityReview
-      };
     } catch (error) {
-      // Fallback synthesis
+      if (!(error instanceof LLMParseError)) {
+        throw error;
+      }
+
+      // Return the unstructured synthesis as-is rather than inventing recommendations
       return {
         taskId: config.id,
         config,
         dimensionFindings,
-        crossDimensionInsights: [synthesisText.substring(0, 200) + '...'],
+        crossDimensionInsights: [],
         recommendations: {
-          primary: 'Further analysis recommended',
-          supporting: ['Review findings in detail', 'Consider additional research'],
-          confidence: 0.6
+          primary: '',
+          supporting: [],
+          confidence: 0
         },
-        qualityReview
+        qualityReview,
+        parseError: error.message,
+        rawSynthesis: synthesisText
       };
     }
+
+    return {
+      taskId: config.id,
+      config,
+      dimensionFindings,
+      crossDimensionInsights: structured.crossDimensionInsights,
+      recommendations: structured.recommendations,
+      qualityReview
+    };
   }
 
   private async generateExecutiveSummary(
@@ -224,18 +273,12 @@ Create a 3-4 paragraph executive summary that:
 3. Provides clear recommendations
 4. Notes any important caveats or limitations`;
 
-    await this.rateLimiter.waitIfNeeded();
-
-    const completion = await this.anthropic.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 1000,
-      temperature: 0.4,
-      messages: [{ role: 'user', content: prompt }]
+    const summary = await this.llm.complete({
+      role: 'summary',
+      prompt
     });
 
-    return completion.content[0].type === 'text' 
-      ? completion.content[0].text 
-      : 'Executive summary generation failed.';
+    return summary || 'Executive summary generation failed.';
   }
 
   async generateCustomOutput(
@@ -251,17 +294,11 @@ ${outputTemplate}
 
 Generate the output according to the template while maintaining accuracy and insights.`;
 
-    await this.rateLimiter.waitIfNeeded();
-
-    const completion = await this.anthropic.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 3000,
-      temperature: 0.3,
-      messages: [{ role: 'user', content: prompt }]
+    const output = await this.llm.complete({
+      role: 'synthesis',
+      prompt
     });
 
-    return completion.content[0].type === 'text' 
-      ? completion.content[0].text 
-      : 'Custom output generation failed.';
+    return output || 'Custom output generation failed.';
   }
 }
\ No newline at end of file
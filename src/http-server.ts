@@ -0,0 +1,228 @@
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+
+export type TransportKind = 'stdio' | 'http';
+
+export interface ServerOptions {
+  transport: TransportKind;
+  host: string;
+  port: number;
+}
+
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_HTTP_PORT = 3000;
+export const MCP_HTTP_PATH = '/mcp';
+// Larger request bodies are rejected with 413 before they are parsed
+export const MAX_HTTP_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface McpHttpServerOptions {
+  // Resolves a bearer token to its owner; requests are rejected with 401 without one
+  authenticate?: (token: string) => AuthInfo | undefined;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  // Client that opened the session; only it may use the session
+  clientId?: string;
+}
+
+// Command-line flags win over MCP_TRANSPORT, MCP_HTTP_HOST and MCP_HTTP_PORT
+export function parseServerOptions(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): ServerOptions {
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--(transport|host|port)(?:=(.*))?$/);
+    if (!match) {
+      continue;
+    }
+    const value = match[2] ?? argv[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${match[1]}`);
+    }
+    flags[match[1]] = value;
+  }
+
+  const transport = flags.transport ?? env.MCP_TRANSPORT ?? 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport: ${transport} (expected stdio or http)`);
+  }
+
+  const portValue = flags.port ?? env.MCP_HTTP_PORT;
+  const port = portValue === undefined ? DEFAULT_HTTP_PORT : Number(portValue);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${portValue}`);
+  }
+
+  return {
+    transport,
+    host: flags.host ?? env.MCP_HTTP_HOST ?? DEFAULT_HTTP_HOST,
+    port
+  };
+}
+
+// Serves MCP over Streamable HTTP. Every client session gets its own Server from
+// the factory, which is told who authenticated; the research state behind those
+// servers is shared
+export class McpHttpServer {
+  private sessions: Map<string, HttpSession> = new Map();
+  private httpServer: HttpServer;
+  private createServer: (auth?: AuthInfo) => Server;
+  private authenticate?: (token: string) => AuthInfo | undefined;
+
+  constructor(createServer: (auth?: AuthInfo) => Server, options: McpHttpServerOptions = {}) {
+    this.createServer = createServer;
+    this.authenticate = options.authenticate;
+    this.httpServer = createHttpServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('Failed to handle MCP HTTP request:', error);
+        if (!res.headersSent) {
+          sendError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+  }
+
+  listen(port: number, host: string): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(port, host, () => {
+        this.httpServer.off('error', reject);
+        resolve(this.httpServer.address() as AddressInfo);
+      });
+    });
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(Array.from(this.sessions.values()).map(session => session.transport.close()));
+    this.sessions.clear();
+    this.httpServer.closeAllConnections();
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== MCP_HTTP_PATH) {
+      sendError(res, 404, -32000, `Not found: ${pathname}`);
+      return;
+    }
+
+    let auth: AuthInfo | undefined;
+    if (this.authenticate) {
+      const match = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i);
+      auth = match ? this.authenticate(match[1]) : undefined;
+      if (!auth) {
+        res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+        sendError(res, 401, -32000, 'Unauthorized: a valid bearer token is required');
+        return;
+      }
+      // Handlers receive it as extra.authInfo
+      (req as IncomingMessage & { auth?: AuthInfo }).auth = auth;
+    }
+
+    // Sessions opened by another client are reported as missing
+    const header = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    const existing = session && session.clientId === auth?.clientId ? session.transport : undefined;
+    if (sessionId && !existing) {
+      sendError(res, 404, -32001, `Session not found: ${sessionId}`);
+      return;
+    }
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = JSON.parse(await readBody(req, MAX_HTTP_BODY_BYTES));
+      } catch (error) {
+        if (error instanceof BodyTooLargeError) {
+          res.setHeader('Connection', 'close');
+          sendError(res, 413, -32600, `Request body exceeds ${MAX_HTTP_BODY_BYTES} bytes`);
+          return;
+        }
+        sendError(res, 400, -32700, 'Parse error: request body must be JSON');
+        return;
+      }
+
+      const initializing = Array.isArray(body) ? body.some(isInitializeRequest) : isInitializeRequest(body);
+      const transport = existing ?? (initializing ? await this.openSession(auth) : undefined);
+      if (!transport) {
+        sendError(res, 400, -32000, 'Bad request: missing mcp-session-id header');
+        return;
+      }
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        sendError(res, 400, -32000, 'Bad request: missing mcp-session-id header');
+        return;
+      }
+      await existing.handleRequest(req, res);
+      return;
+    }
+
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    sendError(res, 405, -32000, `Method not allowed: ${req.method}`);
+  }
+
+  private async openSession(auth?: AuthInfo): Promise<StreamableHTTPServerTransport> {
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => this.sessions.set(id, { transport, clientId: auth?.clientId })
+    });
+
+    const server = this.createServer(auth);
+    const onclose = server.onclose;
+    server.onclose = () => {
+      onclose?.();
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    return transport;
+  }
+}
+
+class BodyTooLargeError extends Error {}
+
+function readBody(req: IncomingMessage, maxBytes: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Drop the rest of the upload unread so the 413 can still be sent
+        req.off('data', onData);
+        req.resume();
+        reject(new BodyTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
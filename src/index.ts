@@ -1,13 +1,38 @@
 #!/usr/bin/env node
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { ResearchTaskManager } from './research-task-manager.js';
-import { FlexibleResearchManager } from './flexible-research-manager.js';
+import { FlexibleResearchManager, ResearchRunResult } from './flexible-research-manager.js';
+import { ResearchPage, RunFlexibleResearchRequest } from './types.js';
+import { ResearchStorage, FileStorage, MemoryStorage } from './storage.js';
+import { AnthropicLLMClient, LLMClient, withMiddleware } from './llm-client.js';
+import { CassetteRecorder } from './cassette.js';
+import { ModelRouting, loadModelRouting, modelRoutingMiddleware } from './model-routing.js';
+import { RateLimiter } from './rate-limiter.js';
+import { PriceTable, loadPriceTable } from './cost-tracker.js';
+import { ProgressListener } from './progress.js';
+import { RESEARCH_RESOURCE_TEMPLATES, ResearchResources } from './research-resources.js';
+import { getResearchPrompt, listResearchPrompts } from './research-prompts.js';
+import { MCP_HTTP_PATH, McpHttpServer, parseServerOptions } from './http-server.js';
+import { bearerAuthenticator, loadAuthTokens, ownerOf } from './auth.js';
+import { runAsOwner } from './ownership.js';
+import { NotFoundError, ResearchError } from './errors.js';
+import { RunResearchArguments, toolErrorResult, tools, validateToolArguments } from './tools.js';
 import * as dotenv from 'dotenv';
+import * as os from 'os';
+import * as path from 'path';
 
 // Load environment variables
 dotenv.config();
@@ -19,432 +44,612 @@ if (!apiKey) {
   process.exit(1);
 }
 
-const server = new Server(
-  {
-    name: 'research-task-mcp-server',
-    version: '2.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
+// Research state is written to disk by default so it survives restarts
+const storage: ResearchStorage = process.env.RESEARCH_STORAGE === 'memory'
+  ? new MemoryStorage()
+  : new FileStorage(
+      process.env.RESEARCH_STORAGE_DIR || path.join(os.homedir(), '.research-task-mcp-server')
+    );
+
+let modelRouting: ModelRouting;
+let prices: PriceTable;
+try {
+  modelRouting = loadModelRouting();
+  prices = loadPriceTable();
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  process.exit(1);
+}
+
+// One limiter for the whole process; the API's rate-limit headers refine these limits
+const rateLimiter = new RateLimiter({
+  requestsPerMinute: Number(process.env.ANTHROPIC_REQUESTS_PER_MINUTE) || 50,
+  inputTokensPerMinute: Number(process.env.ANTHROPIC_INPUT_TOKENS_PER_MINUTE) || undefined,
+  outputTokensPerMinute: Number(process.env.ANTHROPIC_OUTPUT_TOKENS_PER_MINUTE) || undefined
+});
+
+// A single LLM client is shared by every agent
+let llm: LLMClient = withMiddleware(
+  new AnthropicLLMClient(apiKey, { rateLimiter }),
+  modelRoutingMiddleware(modelRouting)
 );
 
+// Record every prompt/response pair per task and session for later replay
+if (process.env.LLM_CASSETTE_MODE === 'record') {
+  llm = withMiddleware(llm, new CassetteRecorder(storage).middleware());
+}
+
 // Initialize both managers for backward compatibility
-const taskManager = new ResearchTaskManager(apiKey);
-const flexibleManager = new FlexibleResearchManager(apiKey);
+const taskManager = new ResearchTaskManager(llm, storage);
+const flexibleManager = new FlexibleResearchManager(llm, storage, prices);
+const resources = new ResearchResources(flexibleManager);
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+// Shared by runFlexibleResearch and startResearch
+function runRequestFromArguments(args: RunResearchArguments): RunFlexibleResearchRequest {
+  const {
+    configId,
+    executionMode = 'parallel',
+    includeQualityReview = true,
+    maxAgents = 5,
+    dimensionTimeoutMs,
+    depth,
+    includeSources,
+    iterative,
+    maxIterations,
+    dimensionSettings,
+    models,
+    budget
+  } = args;
   return {
-    tools: [
-      // New flexible research tools
-      {
-        name: 'configureResearch',
-        description: 'Start an interactive conversation to configure research for any topic',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            initialDescription: { 
-              type: 'string', 
-              description: 'Initial description of what you want to research' 
-            },
-            suggestTemplates: { 
-              type: 'boolean', 
-              description: 'Whether to suggest research templates based on the description',
-              default: true
-            }
-          },
-          required: ['initialDescription']
-        }
+    configId,
+    executionMode,
+    includeQualityReview,
+    maxAgents,
+    dimensionTimeoutMs,
+    depth,
+    includeSources,
+    iterative,
+    maxIterations,
+    dimensionSettings,
+    models,
+    budget
+  };
+}
+
+function formatResearchResult(result: ResearchRunResult) {
+  return {
+    task: result.task,
+    synthesis: {
+      recommendations: result.synthesis.recommendations,
+      crossDimensionInsights: result.synthesis.crossDimensionInsights,
+      executiveSummary: result.synthesis.executiveSummary,
+      qualityScore: result.synthesis.qualityReview?.overallScore,
+      budget: result.synthesis.budget
+    },
+    cost: {
+      total: result.cost.total,
+      byPhase: result.cost.byPhase,
+      unpricedModels: result.cost.unpricedModels
+    },
+    fullResults: result.synthesis
+  };
+}
+
+// List tools return compact summaries; full items are available by ID
+function formatPage<T>(page: ResearchPage<T>, summarize: (item: T) => unknown) {
+  return { items: page.items.map(summarize), total: page.total, nextCursor: page.nextCursor };
+}
+
+// One Server per client connection: stdio has a single one, HTTP one per session.
+// Managers, storage and the LLM client are shared between them; each server only
+// sees the research of the user or workspace that authenticated
+function createServer(auth?: AuthInfo): Server {
+  const ownerId = ownerOf(auth);
+
+  const server = new Server(
+    {
+      name: 'research-task-mcp-server',
+      version: '2.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
       },
-      {
-        name: 'continueConfiguration',
-        description: 'Continue the research configuration conversation',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            sessionId: { 
-              type: 'string', 
-              description: 'Configuration session ID' 
-            },
-            userResponse: { 
-              type: 'string', 
-              description: 'Your response to the configuration questions' 
-            }
-          },
-          required: ['sessionId', 'userResponse']
+    }
+  );
+
+  // Resource URIs this client asked to be notified about
+  const subscriptions: Set<string> = new Set();
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => runAsOwner(ownerId, async () => {
+    // Progress notifications are only sent when the caller asked for them
+    const progressToken = request.params._meta?.progressToken;
+    const onProgress: ProgressListener | undefined = progressToken === undefined
+      ? undefined
+      : update => {
+          extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, ...update }
+          }).catch(error => console.error('Failed to send progress notification:', error));
+        };
+
+    try {
+      const call = validateToolArguments(request.params.name, request.params.arguments);
+
+      switch (call.name) {
+        // New flexible research tools
+        case 'configureResearch': {
+          const { initialDescription, suggestTemplates = true } = call.arguments;
+          const result = await flexibleManager.configureResearch({ 
+            initialDescription, 
+            suggestTemplates 
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  sessionId: result.sessionId,
+                  response: result.response,
+                  suggestedTemplate: result.suggestedTemplate,
+                  nextStep: 'Use continueConfiguration with the sessionId to answer the questions'
+                }, null, 2),
+              },
+            ],
+          };
         }
-      },
-      {
-        name: 'generateResearchPlan',
-        description: 'Generate a research plan from the configuration conversation',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            sessionId: { 
-              type: 'string', 
-              description: 'Configuration session ID' 
-            },
-            includeQualityReview: { 
-              type: 'boolean', 
-              description: 'Whether to include quality review in the plan',
-              default: true
-            }
-          },
-          required: ['sessionId']
+
+        case 'continueConfiguration': {
+          const { sessionId, userResponse } = call.arguments;
+          const result = await flexibleManager.continueConfiguration({ 
+            sessionId, 
+            userResponse 
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  response: result.response,
+                  configComplete: result.configComplete,
+                  extractedConfig: result.extractedConfig,
+                  parseError: result.parseError,
+                  nextStep: result.configComplete 
+                    ? 'Use generateResearchPlan to create the research plan'
+                    : 'Continue answering questions with continueConfiguration'
+                }, null, 2),
+              },
+            ],
+          };
         }
-      },
-      {
-        name: 'runFlexibleResearch',
-        description: 'Execute research based on a configured plan',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            configId: { 
-              type: 'string', 
-              description: 'Research configuration ID' 
-            },
-            executionMode: {
-              type: 'string',
-              enum: ['parallel', 'sequential'],
-              description: 'How to run research agents',
-              default: 'parallel'
-            },
-            includeQualityReview: {
-              type: 'boolean',
-              description: 'Whether to perform quality review of results',
-              default: true
-            },
-            maxAgents: {
-              type: 'number',
-              description: 'Maximum concurrent agents for parallel execution',
-              default: 5
-            }
-          },
-          required: ['configId']
+
+        case 'generateResearchPlan': {
+          const { sessionId, includeQualityReview = true } = call.arguments;
+          const result = await flexibleManager.generateResearchPlan({ 
+            sessionId, 
+            includeQualityReview 
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  configId: result.config.id,
+                  preview: result.preview,
+                  config: result.config,
+                  nextStep: 'Use runFlexibleResearch with the configId to execute the research'
+                }, null, 2),
+              },
+            ],
+          };
         }
-      },
-      // Legacy tools for backward compatibility
-      {
-        name: 'createResearchTask',
-        description: '[Legacy] Create a research task for LLM evaluation tools',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            title: { type: 'string', description: 'Title of the research task' },
-            goal: { type: 'string', description: 'Goal of the research' },
-            strategy: { type: 'string', description: 'Research strategy to use' }
-          },
-          required: ['title', 'goal', 'strategy']
+
+        case 'modifyResearchPlan': {
+          const { configId, operations } = call.arguments;
+          const result = await flexibleManager.modifyResearchPlan({
+            planId: configId,
+            operations
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  configId: result.config.id,
+                  preview: result.preview,
+                  config: result.config,
+                  nextStep: 'Use runFlexibleResearch with the configId to execute the research'
+                }, null, 2),
+              },
+            ],
+          };
         }
-      },
-      {
-        name: 'defineEvaluationAreas',
-        description: '[Legacy] Define evaluation areas for a research task',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            taskId: { type: 'string', description: 'ID of the research task' },
-            areas: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'List of evaluation areas to research'
-            }
-          },
-          required: ['taskId', 'areas']
+
+        case 'runFlexibleResearch': {
+          const result = await flexibleManager.runFlexibleResearch(
+            runRequestFromArguments(call.arguments),
+            { onProgress, signal: extra.signal }
+          );
+        
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(formatResearchResult(result), null, 2),
+              },
+            ],
+          };
         }
-      },
-      {
-        name: 'initializeSubagents',
-        description: '[Legacy] Initialize subagents for parallel research execution',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            parentTaskId: { type: 'string', description: 'Parent task ID' },
-            subagents: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  area: { type: 'string' },
-                  objectives: {
-                    type: 'array',
-                    items: { type: 'string' }
-                  }
-                },
-                required: ['area', 'objectives']
-              }
-            }
-          },
-          required: ['parentTaskId', 'subagents']
+
+        case 'startResearch': {
+          const task = await flexibleManager.startResearch(
+            runRequestFromArguments(call.arguments)
+          );
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  taskId: task.id,
+                  status: task.status,
+                  nextStep: 'Poll getResearchStatus with the taskId, then fetch the outcome with getResearchResult'
+                }, null, 2),
+              },
+            ],
+          };
         }
-      },
-      {
-        name: 'runSubagentResearch',
-        description: '[Legacy] Execute subagent research in parallel or sequential mode',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            taskId: { type: 'string', description: 'Task ID' },
-            executionMode: {
-              type: 'string',
-              enum: ['parallel', 'sequential'],
-              description: 'Execution mode for subagents'
-            },
-            depth: {
-              type: 'string',
-              enum: ['basic', 'comprehensive'],
-              description: 'Research depth'
-            },
-            includeSources: {
-              type: 'boolean',
-              description: 'Include sources in results'
-            }
-          },
-          required: ['taskId']
+
+        case 'getResearchStatus': {
+          const { taskId } = call.arguments;
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(flexibleManager.getResearchStatus(taskId), null, 2),
+              },
+            ],
+          };
         }
-      },
-      {
-        name: 'synthesizeFindings',
-        description: '[Legacy] Synthesize findings from all subagent research',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            taskId: { type: 'string', description: 'Task ID' },
-            dimensionsToCompare: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Dimensions to compare across areas'
-            },
-            goal: { type: 'string', description: 'Synthesis goal' }
-          },
-          required: ['taskId', 'dimensionsToCompare', 'goal']
+
+        case 'cancelResearch': {
+          const { taskId } = call.arguments;
+          const task = flexibleManager.cancelResearch(taskId);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  taskId: task.id,
+                  message: 'Cancellation requested. Dimensions already finished are kept; use getResearchResult once the task is cancelled'
+                }, null, 2),
+              },
+            ],
+          };
         }
-      },
-      {
-        name: 'getOpportunityRecommendation',
-        description: '[Legacy] Get the final opportunity recommendation',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            taskId: { type: 'string', description: 'Task ID' }
-          },
-          required: ['taskId']
+
+        case 'getResearchResult': {
+          const { taskId } = call.arguments;
+          const result = flexibleManager.getResearchResult(taskId);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(formatResearchResult(result), null, 2),
+              },
+            ],
+          };
         }
-      }
-    ],
-  };
-});
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  try {
-    switch (request.params.name) {
-      // New flexible research tools
-      case 'configureResearch': {
-        const { initialDescription, suggestTemplates = true } = request.params.arguments as any;
-        const result = await flexibleManager.configureResearch({ 
-          initialDescription, 
-          suggestTemplates 
-        });
-        return {
-          content: [
+        case 'retryFailedDimensions': {
+          const {
+            taskId, dimensionIds, depth, includeSources, iterative, maxIterations, dimensionSettings, executionMode,
+            includeQualityReview, maxAgents, dimensionTimeoutMs, models, budget
+          } = call.arguments;
+          const result = await flexibleManager.retryFailedDimensions(
             {
-              type: 'text',
-              text: JSON.stringify({
-                sessionId: result.sessionId,
-                response: result.response,
-                suggestedTemplate: result.suggestedTemplate,
-                nextStep: 'Use continueConfiguration with the sessionId to answer the questions'
-              }, null, 2),
+              taskId, dimensionIds, depth, includeSources, iterative, maxIterations, dimensionSettings, executionMode,
+              includeQualityReview, maxAgents, dimensionTimeoutMs, models, budget
             },
-          ],
-        };
-      }
+            { onProgress, signal: extra.signal }
+          );
+          // Dimensions that failed again can be retried once more
+          const failedDimensions = flexibleManager
+            .getResearchStatus(taskId)
+            .subAgents.filter(agent => agent.status === 'failed')
+            .map(agent => ({ dimensionId: agent.dimensionId, error: agent.error }));
 
-      case 'continueConfiguration': {
-        const { sessionId, userResponse } = request.params.arguments as any;
-        const result = await flexibleManager.continueConfiguration({ 
-          sessionId, 
-          userResponse 
-        });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                response: result.response,
-                configComplete: result.configComplete,
-                extractedConfig: result.extractedConfig,
-                nextStep: result.configComplete 
-                  ? 'Use generateResearchPlan to create the research plan'
-                  : 'Continue answering questions with continueConfiguration'
-              }, null, 2),
-            },
-          ],
-        };
-      }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ ...formatResearchResult(result), failedDimensions }, null, 2),
+              },
+            ],
+          };
+        }
 
-      case 'generateResearchPlan': {
-        const { sessionId, includeQualityReview = true } = request.params.arguments as any;
-        const result = await flexibleManager.generateResearchPlan({ 
-          sessionId, 
-          includeQualityReview 
-        });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                configId: result.config.id,
-                preview: result.preview,
-                config: result.config,
-                nextStep: 'Use runFlexibleResearch with the configId to execute the research'
-              }, null, 2),
-            },
-          ],
-        };
-      }
+        case 'getTaskCost': {
+          const { taskId, includeCalls = false } = call.arguments;
+          const { calls, ...cost } = flexibleManager.getTaskCost(taskId);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(includeCalls ? { ...cost, calls } : cost, null, 2),
+              },
+            ],
+          };
+        }
 
-      case 'runFlexibleResearch': {
-        const { 
-          configId, 
-          executionMode = 'parallel', 
-          includeQualityReview = true,
-          maxAgents = 5 
-        } = request.params.arguments as any;
-        
-        const result = await flexibleManager.runFlexibleResearch({ 
-          configId, 
-          executionMode, 
-          includeQualityReview,
-          maxAgents
-        });
-        
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                task: result.task,
-                synthesis: {
-                  recommendations: result.synthesis.recommendations,
-                  crossDimensionInsights: result.synthesis.crossDimensionInsights,
-                  executiveSummary: result.synthesis.executiveSummary,
-                  qualityScore: result.synthesis.qualityReview?.overallScore
-                },
-                fullResults: result.synthesis
-              }, null, 2),
-            },
-          ],
-        };
-      }
+        case 'listResearchConfigs': {
+          const page = flexibleManager.searchConfigs(call.arguments);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(formatPage(page, config => ({
+                  id: config.id,
+                  topic: config.topic,
+                  domain: config.context.domain,
+                  audience: config.context.audience,
+                  dimensions: config.dimensions.map(d => d.name),
+                  createdAt: config.createdAt
+                })), null, 2),
+              },
+            ],
+          };
+        }
 
-      // Legacy tools
-      case 'createResearchTask': {
-        const { title, goal, strategy } = request.params.arguments as any;
-        const task = await taskManager.createResearchTask({ title, goal, strategy });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(task, null, 2),
-            },
-          ],
-        };
-      }
+        case 'listResearchTasks': {
+          const page = flexibleManager.searchTasks(call.arguments);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(formatPage(page, task => ({
+                  id: task.id,
+                  title: task.title,
+                  status: task.status,
+                  phase: task.phase,
+                  error: task.error,
+                  configId: task.configId,
+                  createdAt: task.createdAt,
+                  updatedAt: task.updatedAt
+                })), null, 2),
+              },
+            ],
+          };
+        }
 
-      case 'defineEvaluationAreas': {
-        const { taskId, areas } = request.params.arguments as any;
-        const task = await taskManager.defineEvaluationAreas(taskId, { areas });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(task, null, 2),
-            },
-          ],
-        };
-      }
+        case 'listConfigurationSessions': {
+          const page = flexibleManager.searchSessions(call.arguments);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(formatPage(page, session => ({
+                  sessionId: session.sessionId,
+                  status: session.status,
+                  topic: session.extractedConfig?.topic,
+                  domain: session.extractedConfig?.context?.domain,
+                  turns: session.turns.length,
+                  startedAt: session.turns[0]?.timestamp,
+                  lastActivityAt: session.turns[session.turns.length - 1]?.timestamp
+                })), null, 2),
+              },
+            ],
+          };
+        }
 
-      case 'initializeSubagents': {
-        const { parentTaskId, subagents } = request.params.arguments as any;
-        const agents = await taskManager.initializeSubagents({
-          parent_task_id: parentTaskId,
-          subagents,
-        });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(agents, null, 2),
-            },
-          ],
-        };
-      }
+        case 'getResearchTask': {
+          const { taskId } = call.arguments;
+          const task = flexibleManager.getTask(taskId);
+          if (!task) {
+            throw new NotFoundError(`Task ${taskId} not found`);
+          }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  task,
+                  config: task.configId ? flexibleManager.getConfig(task.configId) : undefined,
+                  synthesis: flexibleManager.getSynthesis(taskId)
+                }, null, 2),
+              },
+            ],
+          };
+        }
 
-      case 'runSubagentResearch': {
-        const { taskId, executionMode = 'parallel', depth = 'comprehensive', includeSources = true } = request.params.arguments as any;
-        const results = await taskManager.runSubagentResearch(taskId, {
-          execution_mode: executionMode,
-          depth,
-          include_sources: includeSources,
-        });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(results, null, 2),
-            },
-          ],
-        };
-      }
+        // Legacy tools
+        case 'createResearchTask': {
+          const { title, goal, strategy } = call.arguments;
+          const task = await taskManager.createResearchTask({ title, goal, strategy });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(task, null, 2),
+              },
+            ],
+          };
+        }
 
-      case 'synthesizeFindings': {
-        const { taskId, dimensionsToCompare, goal } = request.params.arguments as any;
-        const synthesis = await taskManager.synthesizeFindings(taskId, {
-          dimensions_to_compare: dimensionsToCompare,
-          goal,
-        });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(synthesis, null, 2),
-            },
-          ],
-        };
-      }
+        case 'defineEvaluationAreas': {
+          const { taskId, areas } = call.arguments;
+          const task = await taskManager.defineEvaluationAreas(taskId, { areas });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(task, null, 2),
+              },
+            ],
+          };
+        }
 
-      case 'getOpportunityRecommendation': {
-        const { taskId } = request.params.arguments as any;
-        const recommendation = await taskManager.getOpportunityRecommendation(taskId);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(recommendation, null, 2),
-            },
-          ],
-        };
+        case 'initializeSubagents': {
+          const { parentTaskId, subagents } = call.arguments;
+          const agents = await taskManager.initializeSubagents({
+            parent_task_id: parentTaskId,
+            subagents: subagents.map(sa => ({
+              area: sa.area,
+              objectives: sa.objectives,
+              depends_on: sa.dependsOn,
+            })),
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(agents, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'runSubagentResearch': {
+          const {
+            taskId, executionMode = 'parallel', maxAgents = 5, depth = 'comprehensive', includeSources = true
+          } = call.arguments;
+          const results = await taskManager.runSubagentResearch(taskId, {
+            execution_mode: executionMode,
+            depth,
+            include_sources: includeSources,
+            max_agents: maxAgents,
+          }, { onProgress, signal: extra.signal });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(results, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'synthesizeFindings': {
+          const { taskId, dimensionsToCompare, goal } = call.arguments;
+          const synthesis = await taskManager.synthesizeFindings(taskId, {
+            dimensions_to_compare: dimensionsToCompare,
+            goal,
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(synthesis, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'getOpportunityRecommendation': {
+          const { taskId } = call.arguments;
+          const recommendation = await taskManager.getOpportunityRecommendation(taskId);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(recommendation, null, 2),
+              },
+            ],
+          };
+        }
+
+        default:
+          throw new NotFoundError(`Unknown tool: ${request.params.name}`);
+      }
+    } catch (error) {
+      if (!(error instanceof ResearchError)) {
+        console.error(`Tool ${request.params.name} failed:`, error);
       }
+      return toolErrorResult(error);
+    }
+  }));
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: runAsOwner(ownerId, () => resources.list()),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESEARCH_RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+    contents: [runAsOwner(ownerId, () => resources.read(request.params.uri))],
+  }));
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
 
-      default:
-        throw new Error(`Unknown tool: ${request.params.name}`);
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listResearchPrompts(),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { description, messages } = getResearchPrompt(request.params.name, request.params.arguments);
+    return { description, messages };
+  });
+
+  // New plans and finished tasks change the resource list and the contents of their URIs
+  const unsubscribe = flexibleManager.onChange(change => {
+    if (change.ownerId !== ownerId) {
+      return;
     }
-  } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        },
-      ],
+    const notifications = [
+      server.sendResourceListChanged(),
+      ...runAsOwner(ownerId, () => resources.urisFor(change))
+        .filter(uri => subscriptions.has(uri))
+        .map(uri => server.sendResourceUpdated({ uri })),
+    ];
+    Promise.all(notifications).catch(error => {
+      console.error('Failed to send resource notification:', error);
+    });
+  });
+  server.onclose = unsubscribe;
+
+  return server;
+}
+
+async function main() {
+  const options = parseServerOptions();
+
+  await taskManager.loadFromStorage();
+  await flexibleManager.loadFromStorage();
+
+  if (options.transport === 'http') {
+    const tokens = loadAuthTokens();
+    if (!tokens) {
+      throw new Error('The HTTP transport requires MCP_AUTH_TOKENS_FILE');
+    }
+    const httpServer = new McpHttpServer(createServer, { authenticate: bearerAuthenticator(tokens) });
+
+    // Handle graceful shutdown
+    const shutdown = async () => {
+      await httpServer.close();
+      process.exit(0);
     };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    const address = await httpServer.listen(options.port, options.host);
+    console.error(`Research Task MCP Server v2 listening on http://${address.address}:${address.port}${MCP_HTTP_PATH}`);
+    return;
   }
-});
 
-async function main() {
+  const server = createServer();
   const transport = new StdioServerTransport();
   
   // Handle graceful shutdown
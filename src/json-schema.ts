@@ -0,0 +1,104 @@
+// Subset of JSON Schema used for LLM structured output and tool arguments
+export interface JSONSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  minItems?: number;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+}
+
+export function validateJSONSchema(value: unknown, schema: JSONSchema, path: string = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+    return errors;
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${path} must be an object`);
+        return errors;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, propertyValue] of Object.entries(record)) {
+        const propertySchema = schema.properties?.[key];
+        if (propertySchema) {
+          if (propertyValue !== undefined) {
+            errors.push(...validateJSONSchema(propertyValue, propertySchema, `${path}.${key}`));
+          }
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${key} is not allowed`);
+        } else if (typeof schema.additionalProperties === 'object') {
+          errors.push(...validateJSONSchema(propertyValue, schema.additionalProperties, `${path}.${key}`));
+        }
+      }
+      break;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array`);
+        return errors;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} must contain at least ${schema.minItems} item(s)`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => {
+          errors.push(...validateJSONSchema(item, schema.items!, `${path}[${index}]`));
+        });
+      }
+      break;
+    }
+
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${path} must be a string`);
+      }
+      break;
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        errors.push(`${path} must be a number`);
+        return errors;
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        errors.push(`${path} must be an integer`);
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path} must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path} must be <= ${schema.maximum}`);
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${path} must be a boolean`);
+      }
+      break;
+
+    case 'null':
+      if (value !== null) {
+        errors.push(`${path} must be null`);
+      }
+      break;
+  }
+
+  return errors;
+}
@@ -0,0 +1,284 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { AsyncLocalStorage } from 'async_hooks';
+import { DEFAULT_MODEL_ROUTING, ModelOverrides } from './model-routing.js';
+import { JSONSchema, validateJSONSchema } from './json-schema.js';
+import { RateLimiter, RatePriority } from './rate-limiter.js';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, classifyLLMError, withRetry } from './retry.js';
+import { BudgetGuard } from './budget.js';
+import { UpstreamLLMError } from './errors.js';
+import { untilAborted } from './worker-pool.js';
+
+export type LLMRole =
+  | 'research'
+  | 'structuring'
+  | 'synthesis'
+  | 'summary'
+  | 'quality_review'
+  | 'wizard'
+  // The legacy subagent flow, configured separately from the flexible one
+  | 'legacy_research'
+  | 'legacy_synthesis';
+
+export interface LLMRequest {
+  role: LLMRole;
+  // Normally left unset so the configured model routing for the role applies
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  system?: string;
+  prompt: string;
+  // Defaults to interactive for configuration sessions and batch otherwise
+  priority?: RatePriority;
+  // When set, the provider is forced to answer through this schema and the
+  // completion text is the JSON-encoded result
+  output?: StructuredOutput;
+}
+
+export interface StructuredOutput {
+  name: string;
+  description: string;
+  schema: JSONSchema;
+}
+
+export interface LLMClient {
+  complete(request: LLMRequest): Promise<string>;
+  completeJSON<T = any>(request: LLMRequest): Promise<T>;
+  completeStructured<T = any>(request: LLMRequest, output: StructuredOutput): Promise<T>;
+}
+
+// Identifies the task or configuration session an LLM call is made for,
+// so middleware can attribute calls without threading IDs through every agent
+export interface LLMCallScope {
+  kind: 'task' | 'session';
+  id: string;
+  metadata?: Record<string, any>;
+  modelOverrides?: ModelOverrides;
+  // Set while a sub-agent researches its dimension
+  subAgentId?: string;
+  // Receives the token usage of every call made within the scope
+  onUsage?: (usage: LLMUsage) => void;
+  // Calls are refused once this budget is used up
+  budget?: BudgetGuard;
+  // Aborts in-flight and pending calls when the run is cancelled
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  role: LLMRole;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+const scopeStorage = new AsyncLocalStorage<LLMCallScope>();
+
+export function runInLLMScope<T>(scope: LLMCallScope, fn: () => Promise<T>): Promise<T> {
+  return scopeStorage.run(scope, fn);
+}
+
+export function currentLLMScope(): LLMCallScope | undefined {
+  return scopeStorage.getStore();
+}
+
+// Clients call this once a completion's usage is known
+export function reportLLMUsage(usage: LLMUsage): void {
+  currentLLMScope()?.onUsage?.(usage);
+}
+
+// Middleware wraps text completion; JSON and structured completion are built
+// on top of it, so anything added here applies to every call
+export type LLMMiddleware = (
+  request: LLMRequest,
+  next: (request: LLMRequest) => Promise<string>
+) => Promise<string>;
+
+export class LLMParseError extends UpstreamLLMError {
+  constructor(message: string, public readonly responseText: string) {
+    super(message);
+    this.name = 'LLMParseError';
+  }
+}
+
+export function parseJSONCompletion<T = any>(text: string): T {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  try {
+    return JSON.parse(fenced ? fenced[1] : trimmed);
+  } catch (error) {
+    throw new LLMParseError(
+      `Model response was not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      text
+    );
+  }
+}
+
+function parseStructuredCompletion<T>(text: string, output: StructuredOutput): T {
+  const value = parseJSONCompletion<T>(text);
+  const errors = validateJSONSchema(value, output.schema);
+  if (errors.length > 0) {
+    throw new LLMParseError(`Response does not match ${output.name} schema: ${errors.join('; ')}`, text);
+  }
+  return value;
+}
+
+export abstract class BaseLLMClient implements LLMClient {
+  abstract complete(request: LLMRequest): Promise<string>;
+
+  async completeJSON<T = any>(request: LLMRequest): Promise<T> {
+    return parseJSONCompletion<T>(await this.complete(request));
+  }
+
+  // Validates against the schema and makes one repair attempt before giving up
+  async completeStructured<T = any>(request: LLMRequest, output: StructuredOutput): Promise<T> {
+    const firstText = await this.complete({ ...request, output });
+    try {
+      return parseStructuredCompletion<T>(firstText, output);
+    } catch (error) {
+      if (!(error instanceof LLMParseError)) {
+        throw error;
+      }
+
+      const repairPrompt = `${request.prompt}
+
+Your previous answer could not be used: ${error.message}
+
+Previous answer:
+${firstText}
+
+Answer again, making sure the output matches the ${output.name} schema exactly.`;
+
+      const repairedText = await this.complete({ ...request, prompt: repairPrompt, output });
+      return parseStructuredCompletion<T>(repairedText, output);
+    }
+  }
+}
+
+export interface AnthropicLLMClientOptions {
+  // Share one limiter across every client talking to the same account
+  rateLimiter?: RateLimiter;
+  retryPolicy?: RetryPolicy;
+}
+
+export class AnthropicLLMClient extends BaseLLMClient {
+  private anthropic: Anthropic;
+  private rateLimiter: RateLimiter;
+  private retryPolicy: RetryPolicy;
+
+  constructor(apiKey: string, options: AnthropicLLMClientOptions = {}) {
+    super();
+    // Retries are handled here so each attempt goes back through the rate limiter
+    this.anthropic = new Anthropic({ apiKey, maxRetries: 0 });
+    this.rateLimiter = options.rateLimiter ?? new RateLimiter();
+    this.retryPolicy = options.retryPolicy ?? DEFAULT_RETRY_POLICY;
+  }
+
+  // Throws LLMCallError once the failure is not retryable or retries are exhausted
+  async complete(request: LLMRequest): Promise<string> {
+    const signal = currentLLMScope()?.signal;
+    return withRetry(() => this.attempt(request, signal), this.retryPolicy, classifyLLMError, signal);
+  }
+
+  private async attempt(request: LLMRequest, signal?: AbortSignal): Promise<string> {
+    const defaults = DEFAULT_MODEL_ROUTING[request.role];
+    const model = request.model ?? defaults.model;
+    const maxTokens = request.maxTokens ?? defaults.maxTokens;
+    const priority = request.priority
+      ?? (currentLLMScope()?.kind === 'session' ? 'interactive' : 'batch');
+
+    // Rough estimate of ~4 characters per token until the API reports actual usage
+    const estimatedInput = Math.ceil(
+      ((request.system?.length ?? 0) +
+        request.prompt.length +
+        (request.output ? JSON.stringify(request.output.schema).length : 0)) / 4
+    );
+    const reservation = await this.rateLimiter.acquire(
+      { inputTokens: estimatedInput, outputTokens: maxTokens },
+      priority
+    );
+
+    let completion: Anthropic.Message;
+    try {
+      const { data, response } = await this.anthropic.messages.create({
+        model,
+        max_tokens: maxTokens,
+        temperature: request.temperature ?? defaults.temperature,
+        ...(request.system ? { system: request.system } : {}),
+        ...(request.output
+          ? {
+              tools: [{
+                name: request.output.name,
+                description: request.output.description,
+                input_schema: request.output.schema as Anthropic.Tool.InputSchema
+              }],
+              tool_choice: { type: 'tool' as const, name: request.output.name }
+            }
+          : {}),
+        messages: [{ role: 'user', content: request.prompt }]
+      }, { signal }).withResponse();
+
+      completion = data;
+      this.rateLimiter.updateFromHeaders(response.headers);
+      this.rateLimiter.settle(reservation, {
+        inputTokens: completion.usage.input_tokens,
+        outputTokens: completion.usage.output_tokens
+      });
+      reportLLMUsage({
+        role: request.role,
+        model,
+        inputTokens: completion.usage.input_tokens,
+        outputTokens: completion.usage.output_tokens
+      });
+    } catch (error) {
+      if (error instanceof Anthropic.APIError && error.headers) {
+        this.rateLimiter.updateFromHeaders(error.headers);
+      }
+      this.rateLimiter.settle(reservation, { inputTokens: estimatedInput, outputTokens: 0 });
+      throw error;
+    }
+
+    if (request.output) {
+      const toolUse = completion.content.find(block => block.type === 'tool_use');
+      if (toolUse && toolUse.type === 'tool_use') {
+        return JSON.stringify(toolUse.input);
+      }
+    }
+
+    const textBlock = completion.content.find(block => block.type === 'text');
+    return textBlock && textBlock.type === 'text' ? textBlock.text : '';
+  }
+}
+
+class MiddlewareLLMClient extends BaseLLMClient {
+  constructor(
+    private readonly inner: LLMClient,
+    private readonly middlewares: LLMMiddleware[]
+  ) {
+    super();
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const dispatch = (index: number, current: LLMRequest): Promise<string> => {
+      if (index >= this.middlewares.length) {
+        return this.inner.complete(current);
+      }
+      return this.middlewares[index](current, next => dispatch(index + 1, next));
+    };
+
+    return dispatch(0, request);
+  }
+}
+
+// Fails calls made after the scope's signal has aborted, before they reach a provider,
+// and calls still in flight when it aborts, even if the provider ignores the signal
+export function cancellationMiddleware(): LLMMiddleware {
+  return (request, next) => {
+    const signal = currentLLMScope()?.signal;
+    signal?.throwIfAborted();
+    return signal ? untilAborted(signal, next(request)) : next(request);
+  };
+}
+
+// Middlewares run in the order given, the first one seeing the request first
+export function withMiddleware(client: LLMClient, ...middlewares: LLMMiddleware[]): LLMClient {
+  return new MiddlewareLLMClient(client, middlewares);
+}
@@ -0,0 +1,82 @@
+import { BaseLLMClient, LLMRequest, LLMRole, reportLLMUsage } from './llm-client.js';
+import { DEFAULT_MODEL_ROUTING } from './model-routing.js';
+
+export type MockResponse = string | object | ((request: LLMRequest) => string | object);
+
+export interface MockRule {
+  role?: LLMRole | LLMRole[];
+  // Matched against the system prompt and the user prompt
+  pattern?: RegExp | string;
+  response: MockResponse;
+  // Rule is retired after this many matches; unlimited when omitted
+  times?: number;
+}
+
+// Deterministic LLM client for offline runs: the first matching rule answers,
+// and a request nothing matches fails loudly instead of returning filler
+export class MockLLMClient extends BaseLLMClient {
+  readonly calls: LLMRequest[] = [];
+  private rules: { rule: MockRule; uses: number }[] = [];
+
+  constructor(rules: MockRule[] = []) {
+    super();
+    rules.forEach(rule => this.addRule(rule));
+  }
+
+  addRule(rule: MockRule): this {
+    this.rules.push({ rule, uses: 0 });
+    return this;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    this.calls.push(request);
+
+    const entry = this.rules.find(({ rule, uses }) =>
+      (rule.times === undefined || uses < rule.times) && this.matches(rule, request)
+    );
+    if (!entry) {
+      throw new Error(
+        `No mock response for ${request.role} request: ${request.prompt.substring(0, 100)}`
+      );
+    }
+
+    entry.uses++;
+    const response = typeof entry.rule.response === 'function'
+      ? entry.rule.response(request)
+      : entry.rule.response;
+
+    const text = typeof response === 'string' ? response : JSON.stringify(response);
+
+    // Approximate usage at ~4 characters per token so cost accounting has numbers to work with
+    reportLLMUsage({
+      role: request.role,
+      model: request.model ?? DEFAULT_MODEL_ROUTING[request.role].model,
+      inputTokens: Math.ceil(((request.system?.length ?? 0) + request.prompt.length) / 4),
+      outputTokens: Math.ceil(text.length / 4)
+    });
+
+    return text;
+  }
+
+  callsFor(role: LLMRole): LLMRequest[] {
+    return this.calls.filter(call => call.role === role);
+  }
+
+  private matches(rule: MockRule, request: LLMRequest): boolean {
+    if (rule.role) {
+      const roles = Array.isArray(rule.role) ? rule.role : [rule.role];
+      if (!roles.includes(request.role)) {
+        return false;
+      }
+    }
+
+    if (rule.pattern) {
+      const text = `${request.system ?? ''}\n${request.prompt}`;
+      return typeof rule.pattern === 'string'
+        ? text.includes(rule.pattern)
+        : rule.pattern.test(text);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,150 @@
+import { readFileSync } from 'fs';
+import { LLMMiddleware, LLMRole, currentLLMScope } from './llm-client.js';
+
+export interface ModelSettings {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export type ModelRouting = Record<LLMRole, ModelSettings>;
+
+export type ModelOverrides = Partial<Record<LLMRole, Partial<ModelSettings>>>;
+
+export const LLM_ROLES: LLMRole[] = [
+  'research',
+  'structuring',
+  'synthesis',
+  'summary',
+  'quality_review',
+  'wizard',
+  'legacy_research',
+  'legacy_synthesis'
+];
+
+export const DEFAULT_MODEL_ROUTING: ModelRouting = {
+  research: { model: 'claude-3-opus-20240229', maxTokens: 4000, temperature: 0.7 },
+  structuring: { model: 'claude-3-sonnet-20240229', maxTokens: 2000, temperature: 0 },
+  synthesis: { model: 'claude-3-opus-20240229', maxTokens: 4000, temperature: 0.5 },
+  summary: { model: 'claude-3-sonnet-20240229', maxTokens: 1000, temperature: 0.4 },
+  quality_review: { model: 'claude-3-opus-20240229', maxTokens: 3000, temperature: 0.3 },
+  wizard: { model: 'claude-3-sonnet-20240229', maxTokens: 1500, temperature: 0.6 },
+  // The models the legacy agents always used
+  legacy_research: { model: 'claude-3-5-sonnet-20241022', maxTokens: 4000, temperature: 0.7 },
+  legacy_synthesis: { model: 'claude-3-5-sonnet-20241022', maxTokens: 4000, temperature: 0.5 }
+};
+
+export function validateModelOverrides(overrides: ModelOverrides): string[] {
+  const errors: string[] = [];
+
+  for (const [role, settings] of Object.entries(overrides)) {
+    if (!LLM_ROLES.includes(role as LLMRole)) {
+      errors.push(`Unknown model role: ${role}`);
+      continue;
+    }
+    if (!settings || typeof settings !== 'object') {
+      errors.push(`Settings for ${role} must be an object`);
+      continue;
+    }
+    if (
+      settings.model !== undefined &&
+      (typeof settings.model !== 'string' || !settings.model.trim())
+    ) {
+      errors.push(`${role}.model must be a non-empty string`);
+    }
+    if (
+      settings.maxTokens !== undefined &&
+      (!Number.isInteger(settings.maxTokens) || settings.maxTokens <= 0)
+    ) {
+      errors.push(`${role}.maxTokens must be a positive integer`);
+    }
+    if (
+      settings.temperature !== undefined &&
+      (typeof settings.temperature !== 'number' || settings.temperature < 0 || settings.temperature > 1)
+    ) {
+      errors.push(`${role}.temperature must be between 0 and 1`);
+    }
+  }
+
+  return errors;
+}
+
+export function applyModelOverrides(routing: ModelRouting, overrides: ModelOverrides): ModelRouting {
+  const merged = { ...routing };
+  for (const role of LLM_ROLES) {
+    merged[role] = { ...routing[role], ...overrides[role] };
+  }
+  return merged;
+}
+
+// Builds the routing table from defaults, then MODEL_CONFIG_FILE, then
+// LLM_<ROLE>_MODEL / _MAX_TOKENS / _TEMPERATURE variables; throws if any value is invalid
+export function loadModelRouting(env: NodeJS.ProcessEnv = process.env): ModelRouting {
+  const errors: string[] = [];
+  let routing = DEFAULT_MODEL_ROUTING;
+
+  if (env.MODEL_CONFIG_FILE) {
+    let fileOverrides: ModelOverrides;
+    try {
+      fileOverrides = JSON.parse(readFileSync(env.MODEL_CONFIG_FILE, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Could not read MODEL_CONFIG_FILE ${env.MODEL_CONFIG_FILE}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    errors.push(...validateModelOverrides(fileOverrides).map(e => `${env.MODEL_CONFIG_FILE}: ${e}`));
+    routing = applyModelOverrides(routing, fileOverrides);
+  }
+
+  const envOverrides: ModelOverrides = {};
+  for (const role of LLM_ROLES) {
+    const prefix = `LLM_${role.toUpperCase()}`;
+    const settings: Partial<ModelSettings> = {};
+
+    if (env[`${prefix}_MODEL`] !== undefined) {
+      settings.model = env[`${prefix}_MODEL`];
+    }
+    if (env[`${prefix}_MAX_TOKENS`] !== undefined) {
+      settings.maxTokens = Number(env[`${prefix}_MAX_TOKENS`]);
+    }
+    if (env[`${prefix}_TEMPERATURE`] !== undefined) {
+      settings.temperature = Number(env[`${prefix}_TEMPERATURE`]);
+    }
+
+    if (Object.keys(settings).length > 0) {
+      envOverrides[role] = settings;
+    }
+  }
+  errors.push(...validateModelOverrides(envOverrides));
+  routing = applyModelOverrides(routing, envOverrides);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid model configuration: ${errors.join('; ')}`);
+  }
+
+  return routing;
+}
+
+// Fills in model settings by role. Overrides for the current research run take
+// precedence over the configured routing; settings set on the request itself win
+export function modelRoutingMiddleware(routing: ModelRouting): LLMMiddleware {
+  return (request, next) => {
+    const runOverrides = currentLLMScope()?.modelOverrides?.[request.role];
+    return next({
+      ...request,
+      ...routing[request.role],
+      ...runOverrides,
+      ...definedSettings(request)
+    });
+  };
+}
+
+function definedSettings(settings: Partial<ModelSettings>): Partial<ModelSettings> {
+  return Object.fromEntries(
+    Object.entries({
+      model: settings.model,
+      maxTokens: settings.maxTokens,
+      temperature: settings.temperature
+    }).filter(([, value]) => value !== undefined)
+  );
+}
@@ -0,0 +1,17 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// The user or workspace a request acts for. Over stdio there is none, and only
+// unowned sessions, configs and tasks are visible
+const ownerStorage = new AsyncLocalStorage<string | undefined>();
+
+export function runAsOwner<T>(ownerId: string | undefined, fn: () => T): T {
+  return ownerStorage.run(ownerId, fn);
+}
+
+export function currentOwner(): string | undefined {
+  return ownerStorage.getStore();
+}
+
+export function isVisibleToCurrentOwner(item: { ownerId?: string }): boolean {
+  return item.ownerId === currentOwner();
+}
@@ -0,0 +1,31 @@
+export interface ProgressUpdate {
+  progress: number;
+  total: number;
+  message: string;
+}
+
+export type ProgressListener = (update: ProgressUpdate) => void;
+
+// Counts the start and end of each step of a run. Progress only ever increases,
+// as MCP progress notifications require
+export class ProgressReporter {
+  private progress = 0;
+  private readonly total: number;
+  private readonly listener?: ProgressListener;
+
+  // One step starting and finishing counts twice; the final update counts once
+  constructor(steps: number, listener?: ProgressListener) {
+    this.total = steps * 2 + 1;
+    this.listener = listener;
+  }
+
+  update(message: string): void {
+    this.progress++;
+    this.listener?.({ progress: this.progress, total: this.total, message });
+  }
+
+  finish(message: string): void {
+    this.progress = this.total;
+    this.listener?.({ progress: this.progress, total: this.total, message });
+  }
+}
\ No newline at end of file
@@ -1,19 +1,56 @@
-import Anthropic from '@anthropic-ai/sdk';
 import {
   ResearchConfig,
   DimensionResults,
   QualityReviewResult,
   QualityCheckConfig
 } from './types.js';
-import { RateLimiter } from './rate-limiter.js';
+import { LLMClient, LLMParseError, StructuredOutput } from './llm-client.js';
+
+const QUALITY_REVIEW_OUTPUT: StructuredOutput = {
+  name: 'record_quality_review',
+  description: 'Record the structured quality assessment of the research',
+  schema: {
+    type: 'object',
+    properties: {
+      overallScore: { type: 'number', minimum: 0, maximum: 1 },
+      dimensionScores: {
+        type: 'object',
+        additionalProperties: { type: 'number', minimum: 0, maximum: 1 },
+        description: 'Score per dimension ID'
+      },
+      issues: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string' },
+            severity: { type: 'string', enum: ['low', 'medium', 'high'] },
+            description: { type: 'string' },
+            suggestion: { type: 'string' }
+          },
+          required: ['type', 'severity', 'description']
+        }
+      },
+      recommendations: { type: 'array', items: { type: 'string' } },
+      confidence: { type: 'number', minimum: 0, maximum: 1 }
+    },
+    required: ['overallScore', 'dimensionScores', 'issues', 'recommendations', 'confidence']
+  }
+};
+
+interface ReviewResult {
+  overallScore: number;
+  dimensionScores: Record<string, number>;
+  issues: QualityReviewResult['issues'];
+  recommendations: string[];
+  confidence: number;
+}
 
 export class QualityReviewAgent {
-  private anthropic: Anthropic;
-  private rateLimiter: RateLimiter;
+  private llm: LLMClient;
 
-  constructor(apiKey: string) {
-    this.anthropic = new Anthropic({ apiKey });
-    this.rateLimiter = new RateLimiter(10, 60000);
+  constructor(llm: LLMClient) {
+    this.llm = llm;
   }
 
   async reviewResearch(
@@ -46,20 +83,12 @@ Provide:
 4. Specific recommendations for improvement
 5. Confidence in the assessment`;
 
-    await this.rateLimiter.waitIfNeeded();
-
-    const completion = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      max_tokens: 3000,
-      temperature: 0.3,
+    const reviewText = await this.llm.complete({
+      role: 'quality_review',
       system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }]
+      prompt: userPrompt
     });
 
-    const reviewText = completion.content[0].type === 'text' 
-      ? completion.content[0].text 
-      : '';
-
     return await this.parseQualityReview(reviewText, config, dimensionResults);
   }
 
@@ -99,7 +128,9 @@ Provide:
 
 ${reviewText}
 
-Create a JSON object with:
+Dimension IDs: ${config.dimensions.map(d => d.id).join(', ')}
+
+Record with the ${QUALITY_REVIEW_OUTPUT.name} tool:
 {
   "overallScore": <number 0-1>,
   "dimensionScores": {
@@ -117,64 +148,49 @@ Create a JSON object with:
   "confidence": <number 0-1>
 }`;
 
-    await this.rateLimiter.waitIfNeeded();
-
-    const structuredCompletion = await this.anthropic.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 2000,
-      temperature: 0,
-      messages: [{ role: 'user', content: structuringPrompt }]
-    });
-
+    let structured: ReviewResult;
     try {
-      const structured = JSON.parse(
-        structuredCompletion.content[0].type === 'text'
-          ? structuredCompletion.content[0].text
-          : '{}'
-      );
-
-      // Validate against quality check thresholds
-      const qualityIssues = this.checkQualityThresholds(
-        config.qualityChecks,
-        structured.overallScore || 0.7
+      structured = await this.llm.completeStructured<ReviewResult>(
+        { role: 'structuring', prompt: structuringPrompt },
+        QUALITY_REVIEW_OUTPUT
       );
-
-      return {
-        overallScore: structured.overallScore || 0.7,
-        dimensionScores: structured.dimensionScores || 
-          Object.fromEntries(config.dimensions.map(d => [d.id, 0.7])),
-        issues: [
-          ...(structured.issues || []),
-          ...qualityIssues
-        ],
-        recommendations: structured.recommendations || [
-          'Consider expanding research scope',
-          'Verify findings with additional sources',
-          'Add more specific examples'
-        ],
-        confidence: structured.confidence || 0.8
-      };
     } catch (error) {
-      // Fallback review
+      if (!(error instanceof LLMParseError)) {
+        throw error;
+      }
+
+      // No scores are reported when the review could not be read
       return {
-        overallScore: 0.7,
-        dimensionScores: Object.fromEntries(
-          config.dimensions.map(d => [d.id, 0.7])
-        ),
+        overallScore: 0,
+        dimensionScores: {},
         issues: [{
           type: 'parse_error',
-          severity: 'low',
-          description: 'Could not fully parse quality review',
-          suggestion: 'Manual review may be needed'
+          severity: 'high',
+          description: 'Could not parse quality review; scores are unavailable',
+          suggestion: 'Manual review is needed'
         }],
-        recommendations: [
-          'Review research completeness',
-          'Verify evidence quality',
-          'Check for potential biases'
-        ],
-        confidence: 0.6
+        recommendations: [],
+        confidence: 0,
+        parseError: error.message
       };
     }
+
+    // Validate against quality check thresholds
+    const qualityIssues = this.checkQualityThresholds(
+      config.qualityChecks,
+      structured.overallScore
+    );
+
+    return {
+      overallScore: structured.overallScore,
+      dimensionScores: structured.dimensionScores,
+      issues: [
+        ...structured.issues,
+        ...qualityIssues
+      ],
+      recommendations: structured.recommendations,
+      confidence: structured.confidence
+    };
   }
 
   private checkQualityThresholds(
@@ -229,19 +245,11 @@ ${reviewResult.recommendations.join('\n')}
 
 Generate 3-5 specific, actionable suggestions to improve the research quality.`;
 
-    await this.rateLimiter.waitIfNeeded();
-
-    const completion = await this.anthropic.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 1000,
-      temperature: 0.5,
-      messages: [{ role: 'user', content: prompt }]
+    const suggestionsText = await this.llm.complete({
+      role: 'quality_review',
+      prompt
     });
 
-    const suggestionsText = completion.content[0].type === 'text'
-      ? completion.content[0].text
-      : '';
-
     // Extract suggestions as array
     const suggestions = suggestionsText
       .split('\n')
@@ -1,42 +1,201 @@
+export type RatePriority = 'interactive' | 'batch';
+
+export interface RateLimits {
+  requestsPerMinute: number;
+  inputTokensPerMinute?: number;
+  outputTokensPerMinute?: number;
+}
+
+export interface TokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// A slot in the sliding window; token counts start as estimates and are
+// corrected once the actual usage is known
+export interface RateReservation extends TokenCounts {
+  time: number;
+}
+
+interface Waiter {
+  priority: RatePriority;
+  need: TokenCounts;
+  resolve: (reservation: RateReservation) => void;
+}
+
+type ServerBucketName = 'requests' | 'input-tokens' | 'output-tokens';
+
+interface ServerBucket {
+  remaining: number;
+  resetAt: number;
+}
+
 export class RateLimiter {
-  private requestTimes: number[] = [];
-  private readonly maxRequests: number;
+  private reservations: RateReservation[] = [];
+  private waiters: Waiter[] = [];
+  private serverBuckets: Partial<Record<ServerBucketName, ServerBucket>> = {};
+  private timer?: NodeJS.Timeout;
+  private limits: RateLimits;
   private readonly windowMs: number;
 
-  constructor(maxRequests: number = 10, windowMs: number = 60000) {
-    this.maxRequests = maxRequests;
+  constructor(limits: RateLimits = { requestsPerMinute: 50 }, windowMs: number = 60000) {
+    this.limits = { ...limits };
     this.windowMs = windowMs;
   }
 
-  async waitIfNeeded(): Promise<void> {
-    const now = Date.now();
-    
-    // Remove old requests outside the window
-    this.requestTimes = this.requestTimes.filter(
-      time => now - time < this.windowMs
-    );
+  // Resolves once the request fits within every limit. Interactive callers are
+  // served before batch callers; within a lane requests are first-come first-served
+  acquire(need: TokenCounts, priority: RatePriority = 'batch'): Promise<RateReservation> {
+    return new Promise(resolve => {
+      this.waiters.push({ priority, need, resolve });
+      this.pump();
+    });
+  }
+
+  // Replaces the estimate with the actual usage, which may free capacity
+  settle(reservation: RateReservation, actual: TokenCounts): void {
+    reservation.inputTokens = actual.inputTokens;
+    reservation.outputTokens = actual.outputTokens;
+    this.pump();
+  }
+
+  // Adopts the limits and remaining capacity reported by the API
+  updateFromHeaders(headers: { get(name: string): string | null }): void {
+    const limitFor = (name: ServerBucketName): number | undefined => {
+      const value = Number(headers.get(`anthropic-ratelimit-${name}-limit`));
+      return Number.isFinite(value) && value > 0 ? value : undefined;
+    };
+
+    const requestLimit = limitFor('requests');
+    const inputLimit = limitFor('input-tokens');
+    const outputLimit = limitFor('output-tokens');
+    if (requestLimit) this.limits.requestsPerMinute = requestLimit;
+    if (inputLimit) this.limits.inputTokensPerMinute = inputLimit;
+    if (outputLimit) this.limits.outputTokensPerMinute = outputLimit;
 
-    if (this.requestTimes.length >= this.maxRequests) {
-      // Calculate wait time until the oldest request expires
-      const oldestRequest = this.requestTimes[0];
-      const waitTime = this.windowMs - (now - oldestRequest) + 100; // Add 100ms buffer
-      
-      console.log(`Rate limit reached. Waiting ${waitTime}ms...`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-      
-      // Recursive call to ensure we're within limits
-      return this.waitIfNeeded();
+    for (const name of ['requests', 'input-tokens', 'output-tokens'] as ServerBucketName[]) {
+      const remaining = headers.get(`anthropic-ratelimit-${name}-remaining`);
+      const reset = headers.get(`anthropic-ratelimit-${name}-reset`);
+      if (remaining === null || reset === null) {
+        continue;
+      }
+      const resetAt = Date.parse(reset);
+      if (!Number.isNaN(resetAt) && Number.isFinite(Number(remaining))) {
+        this.serverBuckets[name] = { remaining: Number(remaining), resetAt };
+      }
     }
 
-    // Record this request
-    this.requestTimes.push(now);
+    this.pump();
   }
 
   getRequestsRemaining(): number {
-    const now = Date.now();
-    this.requestTimes = this.requestTimes.filter(
-      time => now - time < this.windowMs
+    this.prune(Date.now());
+    return Math.max(0, this.limits.requestsPerMinute - this.reservations.length);
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    while (this.waiters.length > 0) {
+      const index = this.nextWaiterIndex();
+      const waiter = this.waiters[index];
+      const now = Date.now();
+      const waitMs = this.waitTime(waiter.need, now);
+
+      if (waitMs > 0) {
+        console.error(`Rate limit reached. Waiting ${waitMs}ms...`);
+        this.timer = setTimeout(() => this.pump(), waitMs);
+        return;
+      }
+
+      this.waiters.splice(index, 1);
+      const reservation: RateReservation = { time: now, ...waiter.need };
+      this.reservations.push(reservation);
+      this.consumeServerBuckets(waiter.need, now);
+      waiter.resolve(reservation);
+    }
+  }
+
+  private nextWaiterIndex(): number {
+    const interactive = this.waiters.findIndex(w => w.priority === 'interactive');
+    return interactive === -1 ? 0 : interactive;
+  }
+
+  private waitTime(need: TokenCounts, now: number): number {
+    this.prune(now);
+
+    let waitUntil = now;
+    const oldestExpiry = this.reservations.length > 0
+      ? this.reservations[0].time + this.windowMs + 100 // Add 100ms buffer
+      : now;
+
+    if (this.reservations.length + 1 > this.limits.requestsPerMinute) {
+      waitUntil = Math.max(waitUntil, oldestExpiry);
+    }
+
+    // A single request larger than a token limit is let through on an empty window
+    const used = this.tokensInWindow();
+    if (
+      this.limits.inputTokensPerMinute &&
+      this.reservations.length > 0 &&
+      used.inputTokens + need.inputTokens > this.limits.inputTokensPerMinute
+    ) {
+      waitUntil = Math.max(waitUntil, oldestExpiry);
+    }
+    if (
+      this.limits.outputTokensPerMinute &&
+      this.reservations.length > 0 &&
+      used.outputTokens + need.outputTokens > this.limits.outputTokensPerMinute
+    ) {
+      waitUntil = Math.max(waitUntil, oldestExpiry);
+    }
+
+    const needs: Record<ServerBucketName, number> = {
+      'requests': 1,
+      'input-tokens': need.inputTokens,
+      'output-tokens': need.outputTokens
+    };
+    for (const [name, bucket] of Object.entries(this.serverBuckets) as [ServerBucketName, ServerBucket][]) {
+      if (bucket.resetAt > now && bucket.remaining < needs[name]) {
+        waitUntil = Math.max(waitUntil, bucket.resetAt);
+      }
+    }
+
+    return waitUntil - now;
+  }
+
+  private consumeServerBuckets(need: TokenCounts, now: number): void {
+    const needs: Record<ServerBucketName, number> = {
+      'requests': 1,
+      'input-tokens': need.inputTokens,
+      'output-tokens': need.outputTokens
+    };
+    for (const [name, bucket] of Object.entries(this.serverBuckets) as [ServerBucketName, ServerBucket][]) {
+      if (bucket.resetAt > now) {
+        bucket.remaining = Math.max(0, bucket.remaining - needs[name]);
+      } else {
+        delete this.serverBuckets[name];
+      }
+    }
+  }
+
+  private tokensInWindow(): TokenCounts {
+    return this.reservations.reduce(
+      (total, r) => ({
+        inputTokens: total.inputTokens + r.inputTokens,
+        outputTokens: total.outputTokens + r.outputTokens
+      }),
+      { inputTokens: 0, outputTokens: 0 }
+    );
+  }
+
+  private prune(now: number): void {
+    // Remove old requests outside the window
+    this.reservations = this.reservations.filter(
+      r => now - r.time < this.windowMs
     );
-    return Math.max(0, this.maxRequests - this.requestTimes.length);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,244 @@
+import {
+  ResearchConfig,
+  ResearchDimension,
+  QualityCheckConfig,
+  PlanOperation,
+  ResearchDomain,
+  OutputFormat
+} from './types.js';
+import { InvalidArgumentError } from './errors.js';
+
+export const RESEARCH_DOMAINS: ResearchDomain[] = [
+  'market_research',
+  'academic_research',
+  'competitive_analysis',
+  'technology_assessment',
+  'policy_research',
+  'investment_analysis',
+  'custom'
+];
+
+const OUTPUT_FORMATS: OutputFormat[] = [
+  'comparison',
+  'deep_dive',
+  'recommendation',
+  'survey',
+  'synthesis',
+  'executive_summary'
+];
+
+const QUALITY_CHECK_TYPES: QualityCheckConfig['type'][] = [
+  'completeness',
+  'accuracy',
+  'bias',
+  'consistency',
+  'depth'
+];
+
+export function applyPlanOperations(
+  config: ResearchConfig,
+  operations: PlanOperation[]
+): ResearchConfig {
+  // Work on a copy so a failing operation leaves the stored plan untouched
+  const updated: ResearchConfig = structuredClone(config);
+
+  operations.forEach((operation, index) => {
+    try {
+      applyOperation(updated, operation);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new InvalidArgumentError(`Operation ${index + 1} (${operation.op}) failed: ${message}`);
+    }
+  });
+
+  return updated;
+}
+
+function applyOperation(config: ResearchConfig, operation: PlanOperation): void {
+  switch (operation.op) {
+    case 'addDimension': {
+      if (config.dimensions.some(d => d.id === operation.dimension.id)) {
+        throw new Error(`Dimension ${operation.dimension.id} already exists`);
+      }
+      const position = operation.position ?? config.dimensions.length;
+      if (position < 0 || position > config.dimensions.length) {
+        throw new Error(`Position ${position} is out of range`);
+      }
+      config.dimensions.splice(position, 0, { ...operation.dimension });
+      return;
+    }
+
+    case 'removeDimension': {
+      const index = findDimensionIndex(config, operation.dimensionId);
+      config.dimensions.splice(index, 1);
+      return;
+    }
+
+    case 'reorderDimensions': {
+      const currentIds = config.dimensions.map(d => d.id);
+      const requestedIds = new Set(operation.order);
+      if (
+        requestedIds.size !== operation.order.length ||
+        operation.order.length !== currentIds.length ||
+        !currentIds.every(id => requestedIds.has(id))
+      ) {
+        throw new Error(`Order must list each existing dimension exactly once: ${currentIds.join(', ')}`);
+      }
+      config.dimensions = operation.order.map(
+        id => config.dimensions.find(d => d.id === id)!
+      );
+      return;
+    }
+
+    case 'updateDimension': {
+      const index = findDimensionIndex(config, operation.dimensionId);
+      config.dimensions[index] = {
+        ...config.dimensions[index],
+        ...operation.changes,
+        id: operation.dimensionId
+      };
+      return;
+    }
+
+    case 'addQualityCheck': {
+      if (config.qualityChecks.some(qc => qc.type === operation.check.type)) {
+        throw new Error(`Quality check ${operation.check.type} already exists`);
+      }
+      config.qualityChecks.push({ ...operation.check });
+      return;
+    }
+
+    case 'removeQualityCheck': {
+      const index = findQualityCheckIndex(config, operation.type);
+      config.qualityChecks.splice(index, 1);
+      return;
+    }
+
+    case 'updateQualityCheck': {
+      const index = findQualityCheckIndex(config, operation.type);
+      config.qualityChecks[index] = {
+        ...config.qualityChecks[index],
+        ...operation.changes,
+        type: operation.type
+      };
+      return;
+    }
+
+    case 'updateContext': {
+      config.context = {
+        ...config.context,
+        ...operation.changes
+      };
+      return;
+    }
+
+    case 'updatePlan': {
+      if (operation.changes.topic !== undefined) {
+        config.topic = operation.changes.topic;
+      }
+      if (operation.changes.outputFormat !== undefined) {
+        config.outputFormat = operation.changes.outputFormat;
+      }
+      return;
+    }
+
+    default:
+      throw new Error(`Unknown operation: ${(operation as { op: string }).op}`);
+  }
+}
+
+function findDimensionIndex(config: ResearchConfig, dimensionId: string): number {
+  const index = config.dimensions.findIndex(d => d.id === dimensionId);
+  if (index === -1) {
+    throw new Error(`Dimension ${dimensionId} not found`);
+  }
+  return index;
+}
+
+function findQualityCheckIndex(config: ResearchConfig, type: QualityCheckConfig['type']): number {
+  const index = config.qualityChecks.findIndex(qc => qc.type === type);
+  if (index === -1) {
+    throw new Error(`Quality check ${type} not found`);
+  }
+  return index;
+}
+
+export function validateResearchConfig(config: ResearchConfig): string[] {
+  const errors: string[] = [];
+
+  if (!config.topic || !config.topic.trim()) {
+    errors.push('Topic must not be empty');
+  }
+  if (!RESEARCH_DOMAINS.includes(config.context.domain)) {
+    errors.push(`Unknown domain: ${config.context.domain}`);
+  }
+  if (!Array.isArray(config.context.audience)) {
+    errors.push('Audience must be an array');
+  }
+  if (typeof config.context.perspective !== 'string') {
+    errors.push('Perspective must be a string');
+  }
+  if (!OUTPUT_FORMATS.includes(config.outputFormat)) {
+    errors.push(`Unknown output format: ${config.outputFormat}`);
+  }
+
+  if (config.dimensions.length === 0) {
+    errors.push('Plan must contain at least one dimension');
+  }
+  const seenDimensions = new Set<string>();
+  for (const dimension of config.dimensions) {
+    errors.push(...validateDimension(dimension));
+    if (seenDimensions.has(dimension.id)) {
+      errors.push(`Duplicate dimension id: ${dimension.id}`);
+    }
+    seenDimensions.add(dimension.id);
+  }
+
+  const seenChecks = new Set<string>();
+  for (const check of config.qualityChecks) {
+    if (!QUALITY_CHECK_TYPES.includes(check.type)) {
+      errors.push(`Unknown quality check type: ${check.type}`);
+    }
+    if (!Array.isArray(check.criteria) || check.criteria.length === 0) {
+      errors.push(`Quality check ${check.type} must have at least one criterion`);
+    }
+    if (typeof check.threshold !== 'number' || check.threshold < 0 || check.threshold > 1) {
+      errors.push(`Quality check ${check.type} threshold must be between 0 and 1`);
+    }
+    if (seenChecks.has(check.type)) {
+      errors.push(`Duplicate quality check: ${check.type}`);
+    }
+    seenChecks.add(check.type);
+  }
+
+  return errors;
+}
+
+function validateDimension(dimension: ResearchDimension): string[] {
+  const errors: string[] = [];
+  const label = dimension.id || '(missing id)';
+
+  if (!dimension.id) {
+    errors.push('Dimension id must not be empty');
+  }
+  if (!dimension.name || !dimension.name.trim()) {
+    errors.push(`Dimension ${label} must have a name`);
+  }
+  if (typeof dimension.description !== 'string') {
+    errors.push(`Dimension ${label} description must be a string`);
+  }
+  if (!Array.isArray(dimension.evaluationCriteria)) {
+    errors.push(`Dimension ${label} evaluationCriteria must be an array`);
+  }
+  if (!Array.isArray(dimension.dataPoints)) {
+    errors.push(`Dimension ${label} dataPoints must be an array`);
+  }
+  if (
+    dimension.weight !== undefined &&
+    (typeof dimension.weight !== 'number' || dimension.weight < 0 || dimension.weight > 1)
+  ) {
+    errors.push(`Dimension ${label} weight must be between 0 and 1`);
+  }
+
+  return errors;
+}
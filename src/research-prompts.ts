@@ -0,0 +1,129 @@
+import { researchTemplates, suggestTemplate } from './research-templates.js';
+import { ResearchTemplate } from './types.js';
+import { InvalidArgumentError, NotFoundError } from './errors.js';
+
+export interface ResearchPromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface ResearchPrompt {
+  name: string;
+  description: string;
+  arguments: ResearchPromptArgument[];
+}
+
+export interface ResearchPromptMessage {
+  role: 'user';
+  content: { type: 'text'; text: string };
+}
+
+export interface ResearchPromptResult {
+  description: string;
+  messages: ResearchPromptMessage[];
+}
+
+export const RESEARCH_WORKFLOW_PROMPT = 'research_workflow';
+
+const commonArguments: ResearchPromptArgument[] = [
+  { name: 'topic', description: 'What to research', required: true },
+  { name: 'audience', description: 'Who the findings are for, e.g. investors or engineering leads', required: false },
+  { name: 'constraints', description: 'Scope, timeframe, region or budget limits to respect', required: false }
+];
+
+// One prompt per research template plus a guided walk through the whole workflow
+export function listResearchPrompts(): ResearchPrompt[] {
+  const prompts: ResearchPrompt[] = Object.values(researchTemplates).map(template => ({
+    name: template.id,
+    description: `${template.name}: ${template.description}`,
+    arguments: commonArguments
+  }));
+
+  prompts.push({
+    name: RESEARCH_WORKFLOW_PROMPT,
+    description: 'Guided research from the first question to the final recommendations',
+    arguments: [
+      ...commonArguments,
+      {
+        name: 'template',
+        description: `Research template to start from: ${Object.keys(researchTemplates).join(', ')}`,
+        required: false
+      }
+    ]
+  });
+
+  return prompts;
+}
+
+export function getResearchPrompt(
+  name: string,
+  args: Record<string, string | undefined> = {}
+): ResearchPromptResult {
+  const topic = args.topic?.trim();
+  const isWorkflow = name === RESEARCH_WORKFLOW_PROMPT;
+  const template = isWorkflow
+    ? researchTemplates[args.template || suggestTemplate(topic || '') || '']
+    : researchTemplates[name];
+
+  if (!isWorkflow && !template) {
+    throw new NotFoundError(`Unknown prompt: ${name}`);
+  }
+  if (isWorkflow && args.template && !template) {
+    throw new InvalidArgumentError(`Unknown template: ${args.template}`);
+  }
+  if (!topic) {
+    throw new InvalidArgumentError('Missing required argument: topic');
+  }
+
+  const description = describeRequest(topic, args.audience, args.constraints);
+  const text = isWorkflow
+    ? workflowText(description, template)
+    : templateText(description, template!);
+
+  return {
+    description: isWorkflow
+      ? `Guided research on ${topic}`
+      : `${template!.name} on ${topic}`,
+    messages: [{ role: 'user', content: { type: 'text', text } }]
+  };
+}
+
+function describeRequest(topic: string, audience?: string, constraints?: string): string {
+  let description = topic;
+  if (audience) {
+    description += `. The findings are for ${audience}`;
+  }
+  if (constraints) {
+    description += `. Constraints: ${constraints}`;
+  }
+  return description;
+}
+
+function templateText(description: string, template: ResearchTemplate): string {
+  return `I want to run ${template.name.toLowerCase()}: ${description}.
+
+Call configureResearch with that description as initialDescription. The "${template.id}" template covers:
+${template.defaultDimensions.map(d => `- ${d.name}: ${d.description}`).join('\n')}
+
+While configuring, make sure these questions are answered, asking me for anything you cannot infer from the description:
+${template.exampleQuestions.map(q => `- ${q}`).join('\n')}
+
+Then call generateResearchPlan, show me the plan, and run it with runFlexibleResearch once I confirm.`;
+}
+
+function workflowText(description: string, template?: ResearchTemplate): string {
+  const templateHint = template
+    ? `The "${template.id}" template (${template.name}) is the likely starting point.`
+    : 'Let the configuration conversation pick the best template.';
+
+  return `Help me research: ${description}.
+
+Work through these steps, checking in with me between them:
+1. Call configureResearch with that description. ${templateHint}
+2. Answer the wizard's questions with continueConfiguration, asking me whenever the answer is not clear from what I said.
+3. Call generateResearchPlan and summarize the dimensions and quality checks for me.
+4. Apply any changes I ask for with modifyResearchPlan.
+5. Start the research with startResearch and poll getResearchStatus until it finishes.
+6. Fetch getResearchResult and present the executive summary, the primary recommendation and its confidence, and any high-severity quality issues.`;
+}
@@ -0,0 +1,240 @@
+import { FlexibleResearchManager, ResearchChange } from './flexible-research-manager.js';
+import {
+  ConversationState,
+  DimensionResults,
+  FlexibleSubAgent,
+  ResearchSynthesis
+} from './types.js';
+import { NotFoundError } from './errors.js';
+
+export interface ResearchResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResearchResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface ResearchResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export const RESEARCH_RESOURCE_TEMPLATES: ResearchResourceTemplate[] = [
+  {
+    uriTemplate: 'research://configs/{configId}',
+    name: 'Research plan',
+    description: 'A research configuration: topic, context, dimensions and quality checks',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'research://tasks/{taskId}/synthesis',
+    name: 'Research synthesis',
+    description: 'Recommendations, insights and executive summary of a finished research task',
+    mimeType: 'text/markdown'
+  },
+  {
+    uriTemplate: 'research://tasks/{taskId}/dimensions/{dimensionId}',
+    name: 'Dimension findings',
+    description: 'Findings, evidence and sources for one dimension of a research task',
+    mimeType: 'text/markdown'
+  },
+  {
+    uriTemplate: 'research://sessions/{sessionId}/transcript',
+    name: 'Configuration transcript',
+    description: 'The conversation that produced a research plan',
+    mimeType: 'text/markdown'
+  }
+];
+
+// Read-only view of research artifacts under research:// URIs
+export class ResearchResources {
+  private manager: FlexibleResearchManager;
+
+  constructor(manager: FlexibleResearchManager) {
+    this.manager = manager;
+  }
+
+  list(): ResearchResource[] {
+    const resources: ResearchResource[] = [];
+
+    for (const config of this.manager.listConfigs()) {
+      resources.push({
+        uri: `research://configs/${config.id}`,
+        name: `Research plan: ${config.topic}`,
+        mimeType: 'application/json'
+      });
+    }
+
+    for (const task of this.manager.listTasks()) {
+      if (this.manager.getSynthesis(task.id)) {
+        resources.push({
+          uri: `research://tasks/${task.id}/synthesis`,
+          name: `Synthesis: ${task.title}`,
+          description: `Research task ${task.status}`,
+          mimeType: 'text/markdown'
+        });
+      }
+      for (const agent of this.manager.getSubAgents(task.id) || []) {
+        if (agent.results) {
+          resources.push({
+            uri: `research://tasks/${task.id}/dimensions/${agent.dimension.id}`,
+            name: `${agent.dimension.name}: ${task.title}`,
+            mimeType: 'text/markdown'
+          });
+        }
+      }
+    }
+
+    for (const session of this.manager.listSessions()) {
+      resources.push({
+        uri: `research://sessions/${session.sessionId}/transcript`,
+        name: `Configuration transcript ${session.sessionId}`,
+        description: `Session ${session.status}, ${session.turns.length} turns`,
+        mimeType: 'text/markdown'
+      });
+    }
+
+    return resources;
+  }
+
+  read(uri: string): ResearchResourceContents {
+    const configMatch = uri.match(/^research:\/\/configs\/([^/]+)$/);
+    if (configMatch) {
+      const config = this.manager.getConfig(decodeURIComponent(configMatch[1]));
+      if (config) {
+        return { uri, mimeType: 'application/json', text: JSON.stringify(config, null, 2) };
+      }
+    }
+
+    const synthesisMatch = uri.match(/^research:\/\/tasks\/([^/]+)\/synthesis$/);
+    if (synthesisMatch) {
+      const synthesis = this.manager.getSynthesis(decodeURIComponent(synthesisMatch[1]));
+      if (synthesis) {
+        return { uri, mimeType: 'text/markdown', text: renderSynthesis(synthesis) };
+      }
+    }
+
+    const dimensionMatch = uri.match(/^research:\/\/tasks\/([^/]+)\/dimensions\/([^/]+)$/);
+    if (dimensionMatch) {
+      const dimensionId = decodeURIComponent(dimensionMatch[2]);
+      const agent = this.manager
+        .getSubAgents(decodeURIComponent(dimensionMatch[1]))
+        ?.find(a => a.dimension.id === dimensionId);
+      if (agent?.results) {
+        return { uri, mimeType: 'text/markdown', text: renderDimension(agent, agent.results) };
+      }
+    }
+
+    const transcriptMatch = uri.match(/^research:\/\/sessions\/([^/]+)\/transcript$/);
+    if (transcriptMatch) {
+      const session = this.manager.getSession(decodeURIComponent(transcriptMatch[1]));
+      if (session) {
+        return { uri, mimeType: 'text/markdown', text: renderTranscript(session) };
+      }
+    }
+
+    throw new NotFoundError(`Resource not found: ${uri}`);
+  }
+
+  // URIs whose contents may have changed
+  urisFor(change: ResearchChange): string[] {
+    if (change.kind === 'config') {
+      return [`research://configs/${change.id}`];
+    }
+    return [
+      `research://tasks/${change.id}/synthesis`,
+      ...(this.manager.getSubAgents(change.id) || []).map(
+        agent => `research://tasks/${change.id}/dimensions/${agent.dimension.id}`
+      )
+    ];
+  }
+}
+
+function renderSynthesis(synthesis: ResearchSynthesis): string {
+  const { config } = synthesis;
+  let text = `# ${config.topic}\n\n`;
+
+  if (synthesis.cancelled) {
+    text += `> Research was cancelled; only the dimensions finished beforehand are included.\n\n`;
+  }
+  if (synthesis.budget?.truncated) {
+    text += `> Research stopped early: ${synthesis.budget.reason}.\n\n`;
+  }
+  if (synthesis.parseError) {
+    text += `> The synthesis could not be structured: ${synthesis.parseError}\n\n`;
+  }
+
+  if (synthesis.executiveSummary) {
+    text += `## Executive Summary\n\n${synthesis.executiveSummary}\n\n`;
+  }
+
+  if (synthesis.recommendations.primary) {
+    text += `## Recommendations\n\n`;
+    text += `**${synthesis.recommendations.primary}** (confidence ${synthesis.recommendations.confidence})\n\n`;
+    text += synthesis.recommendations.supporting.map(r => `- ${r}\n`).join('');
+    text += '\n';
+  }
+
+  if (synthesis.crossDimensionInsights.length > 0) {
+    text += `## Cross-Dimension Insights\n\n`;
+    text += synthesis.crossDimensionInsights.map(i => `- ${i}\n`).join('');
+    text += '\n';
+  }
+
+  text += `## Dimensions\n\n`;
+  for (const dimension of config.dimensions) {
+    const results = synthesis.dimensionFindings[dimension.id];
+    text += results
+      ? `- **${dimension.name}**: confidence ${results.confidence}\n`
+      : `- **${dimension.name}**: no results\n`;
+  }
+
+  if (synthesis.qualityReview) {
+    text += `\n## Quality Review\n\n`;
+    text += `Overall score: ${synthesis.qualityReview.overallScore}\n\n`;
+    text += synthesis.qualityReview.issues
+      .map(issue => `- [${issue.severity}] ${issue.description}\n`)
+      .join('');
+  }
+
+  return text;
+}
+
+function renderDimension(agent: FlexibleSubAgent, results: DimensionResults): string {
+  let text = `# ${agent.dimension.name}\n\n${agent.dimension.description}\n\n`;
+  text += `Confidence: ${results.confidence}\n\n`;
+
+  if (results.parseError) {
+    text += `> The findings could not be structured: ${results.parseError}\n\n`;
+  }
+  if (results.truncated) {
+    text += `> Research was cut off; only the sub-questions answered beforehand are included.\n\n`;
+  }
+
+  text += `## Findings\n\n\`\`\`json\n${JSON.stringify(results.findings, null, 2)}\n\`\`\`\n\n`;
+
+  if (results.evidence.length > 0) {
+    text += `## Evidence\n\n${results.evidence.map(e => `- ${e}\n`).join('')}\n`;
+  }
+  if (results.sources && results.sources.length > 0) {
+    text += `## Sources\n\n${results.sources.map(s => `- ${s}\n`).join('')}`;
+  }
+
+  return text;
+}
+
+function renderTranscript(session: ConversationState): string {
+  let text = `# Configuration session ${session.sessionId}\n\nStatus: ${session.status}\n\n`;
+  for (const turn of session.turns) {
+    text += `**${turn.role === 'user' ? 'User' : 'Assistant'}** (${new Date(turn.timestamp).toISOString()}):\n\n${turn.content}\n\n`;
+  }
+  return text;
+}
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { ListResearchRequest, ResearchPage } from './types.js';
+import { InvalidArgumentError } from './errors.js';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// What the list filters look at for one item
+export interface SearchFields {
+  text: (string | undefined)[];
+  domain?: string;
+  createdAt?: Date;
+}
+
+function parseDate(value: string, field: string): number {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new InvalidArgumentError(`${field} must be an ISO 8601 date, got ${value}`);
+  }
+  return time;
+}
+
+// Cursors are opaque to clients; they encode the offset of the next page
+function encodeCursor(offset: number): string {
+  return Buffer.from(`offset:${offset}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  const match = Buffer.from(cursor, 'base64url').toString('utf8').match(/^offset:(\d+)$/);
+  if (!match) {
+    throw new InvalidArgumentError(`Invalid cursor: ${cursor}`);
+  }
+  return Number(match[1]);
+}
+
+// Filters, sorts newest first and cuts out the requested page
+export function searchItems<T>(
+  items: T[],
+  fieldsOf: (item: T) => SearchFields,
+  request: ListResearchRequest,
+  extraFilter: (item: T) => boolean = () => true
+): ResearchPage<T> {
+  const after = request.createdAfter ? parseDate(request.createdAfter, 'createdAfter') : undefined;
+  const before = request.createdBefore ? parseDate(request.createdBefore, 'createdBefore') : undefined;
+  const text = request.text?.trim().toLowerCase();
+  const limit = Math.min(Math.max(1, Math.floor(request.limit ?? DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE);
+  const offset = request.cursor ? decodeCursor(request.cursor) : 0;
+
+  const matches = items
+    .map(item => ({ item, fields: fieldsOf(item) }))
+    .filter(({ item, fields }) => {
+      const created = fields.createdAt ? new Date(fields.createdAt).getTime() : undefined;
+      if (request.domain && fields.domain !== request.domain) {
+        return false;
+      }
+      // Items without a timestamp never match a date range
+      if (after !== undefined && (created === undefined || created < after)) {
+        return false;
+      }
+      if (before !== undefined && (created === undefined || created >= before)) {
+        return false;
+      }
+      if (text && !fields.text.some(value => value?.toLowerCase().includes(text))) {
+        return false;
+      }
+      return extraFilter(item);
+    })
+    .sort((a, b) => timeOf(b.fields) - timeOf(a.fields));
+
+  const page = matches.slice(offset, offset + limit).map(({ item }) => item);
+  return {
+    items: page,
+    total: matches.length,
+    nextCursor: offset + limit < matches.length ? encodeCursor(offset + limit) : undefined
+  };
+}
+
+function timeOf(fields: SearchFields): number {
+  return fields.createdAt ? new Date(fields.createdAt).getTime() : 0;
+}
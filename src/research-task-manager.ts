@@ -10,9 +10,69 @@ import {
   InitializeSubagentsRequest,
   RunSubagentResearchRequest,
   SynthesizeFindingsRequest,
+  ResearchRunOptions,
 } from './types.js';
 import { ClaudeResearchAgent } from './claude-research-agent.js';
 import { SynthesisAgent } from './synthesis-agent.js';
+import { ResearchStorage, MemoryStorage } from './storage.js';
+import { LLMClient, cancellationMiddleware, runInLLMScope, withMiddleware } from './llm-client.js';
+import { describeFailure } from './retry.js';
+import { ProgressReporter } from './progress.js';
+import { currentOwner, isVisibleToCurrentOwner } from './ownership.js';
+import { InvalidArgumentError, InvalidStateError, NotFoundError } from './errors.js';
+import { runWithConcurrency, runWithDependencies } from './worker-pool.js';
+
+// Every dependency must name another subagent's area, and dependencies may not form a cycle
+function validateDependencies(subAgents: SubAgent[]): string[] {
+  const errors: string[] = [];
+  // Dependencies name areas, so each area must be unique
+  const names = subAgents.map(agent => agent.area);
+  const duplicates = new Set(names.filter((area, index) => names.indexOf(area) !== index));
+  for (const area of duplicates) {
+    errors.push(`area ${area} is listed more than once`);
+  }
+
+  const areas = new Set(names);
+  for (const agent of subAgents) {
+    for (const area of agent.dependsOn || []) {
+      if (area === agent.area) {
+        errors.push(`${agent.area} depends on itself`);
+      } else if (!areas.has(area)) {
+        errors.push(`${agent.area} depends on unknown area ${area}`);
+      }
+    }
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  // Depth-first search; reaching an area still on the path closes a cycle
+  const done = new Set<string>();
+  const visit = (area: string, path: string[]): string[] | undefined => {
+    if (path.includes(area)) {
+      return [...path.slice(path.indexOf(area)), area];
+    }
+    if (done.has(area)) {
+      return undefined;
+    }
+    const agent = subAgents.find(other => other.area === area)!;
+    for (const dependency of agent.dependsOn || []) {
+      const cycle = visit(dependency, [...path, area]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    done.add(area);
+    return undefined;
+  };
+  for (const area of areas) {
+    const cycle = visit(area, []);
+    if (cycle) {
+      return [`dependencies form a cycle: ${cycle.join(' -> ')}`];
+    }
+  }
+  return errors;
+}
 
 export class ResearchTaskManager {
   private tasks: Map<string, ResearchTask> = new Map();
@@ -20,10 +80,32 @@ export class ResearchTaskManager {
   private syntheses: Map<string, TaskSynthesis> = new Map();
   private researchAgent: ClaudeResearchAgent;
   private synthesisAgent: SynthesisAgent;
+  private storage: ResearchStorage;
 
-  constructor(apiKey: string) {
-    this.researchAgent = new ClaudeResearchAgent(apiKey);
-    this.synthesisAgent = new SynthesisAgent(apiKey);
+  constructor(llm: LLMClient, storage: ResearchStorage = new MemoryStorage()) {
+    llm = withMiddleware(llm, cancellationMiddleware());
+    this.researchAgent = new ClaudeResearchAgent(llm);
+    this.synthesisAgent = new SynthesisAgent(llm);
+    this.storage = storage;
+  }
+
+  // Restore persisted state at startup
+  async loadFromStorage(): Promise<void> {
+    for (const { id, value } of await this.storage.entries<ResearchTask>('legacy_tasks')) {
+      this.tasks.set(id, value);
+    }
+    for (const { id, value } of await this.storage.entries<SubAgent[]>('legacy_subagents')) {
+      // Agents that were mid-flight when the server stopped will never finish
+      for (const agent of value) {
+        if (agent.status === 'running') {
+          agent.status = 'failed';
+        }
+      }
+      this.subAgents.set(id, value);
+    }
+    for (const { id, value } of await this.storage.entries<TaskSynthesis>('legacy_syntheses')) {
+      this.syntheses.set(id, value);
+    }
   }
 
   async createResearchTask(request: CreateResearchTaskRequest): Promise<ResearchTask> {
@@ -33,30 +115,33 @@ export class ResearchTaskManager {
       goal: request.goal,
       strategy: request.strategy,
       status: 'pending',
+      ownerId: currentOwner(),
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
     this.tasks.set(task.id, task);
+    await this.storage.put('legacy_tasks', task.id, task);
     return task;
   }
 
   async defineEvaluationAreas(taskId: string, request: DefineEvaluationAreasRequest): Promise<ResearchTask> {
-    const task = this.tasks.get(taskId);
+    const task = this.getTask(taskId);
     if (!task) {
-      throw new Error(`Task ${taskId} not found`);
+      throw new NotFoundError(`Task ${taskId} not found`);
     }
 
     task.areas = request.areas;
     task.updatedAt = new Date();
+    await this.storage.put('legacy_tasks', task.id, task);
     
     return task;
   }
 
   async initializeSubagents(request: InitializeSubagentsRequest): Promise<SubAgent[]> {
-    const task = this.tasks.get(request.parent_task_id);
+    const task = this.getTask(request.parent_task_id);
     if (!task) {
-      throw new Error(`Task ${request.parent_task_id} not found`);
+      throw new NotFoundError(`Task ${request.parent_task_id} not found`);
     }
 
     const subAgents: SubAgent[] = request.subagents.map(sa => ({
@@ -64,54 +149,118 @@ export class ResearchTaskManager {
       parentTaskId: request.parent_task_id,
       area: sa.area,
       objectives: sa.objectives,
+      dependsOn: sa.depends_on?.length ? sa.depends_on : undefined,
       status: 'pending',
     }));
 
+    const errors = validateDependencies(subAgents);
+    if (errors.length > 0) {
+      throw new InvalidArgumentError(`Invalid subagent dependencies: ${errors.join('; ')}`);
+    }
+
     this.subAgents.set(request.parent_task_id, subAgents);
     
     task.status = 'in_progress';
     task.updatedAt = new Date();
 
+    await this.storage.put('legacy_subagents', request.parent_task_id, subAgents);
+    await this.storage.put('legacy_tasks', task.id, task);
+
     return subAgents;
   }
 
   async runSubagentResearch(
     taskId: string,
-    request: RunSubagentResearchRequest
+    request: RunSubagentResearchRequest,
+    options: ResearchRunOptions = {}
   ): Promise<SubAgent[]> {
+    if (!this.getTask(taskId)) {
+      throw new NotFoundError(`Task ${taskId} not found`);
+    }
     const subAgents = this.subAgents.get(taskId);
     if (!subAgents) {
-      throw new Error(`No subagents found for task ${taskId}`);
+      throw new InvalidStateError(`No subagents found for task ${taskId}`);
     }
 
-    const researchPromises = subAgents.map(async (agent) => {
+    const maxAgents = request.max_agents ?? 5;
+    if (!(Number.isInteger(maxAgents) && maxAgents > 0)) {
+      throw new InvalidArgumentError('maxAgents must be a positive integer');
+    }
+
+    const progress = new ProgressReporter(subAgents.length, options.onProgress);
+    const signal = options.signal;
+    const dependenciesOf = (agent: SubAgent) =>
+      (agent.dependsOn || []).map(area => subAgents.find(other => other.area === area)!);
+
+    // Resolves to whether the agent completed
+    const runAgent = async (agent: SubAgent): Promise<boolean> => {
+      if (signal?.aborted) {
+        agent.status = 'cancelled';
+        progress.update(`Skipped ${agent.area}: research was cancelled`);
+        await this.storage.put('legacy_subagents', taskId, subAgents);
+        return false;
+      }
+
       try {
         agent.status = 'running';
+        agent.error = undefined;
+        progress.update(`Researching ${agent.area}`);
         
-        // Use Claude to perform actual research
-        const results = await this.researchAgent.performResearch(
-          agent,
-          request.depth,
-          request.include_sources
+        // Use Claude to perform actual research, building on finished dependencies
+        const priorFindings = dependenciesOf(agent).filter(dependency => dependency.status === 'completed');
+        const results = await runInLLMScope({ kind: 'task', id: taskId, signal }, () =>
+          this.researchAgent.performResearch(
+            agent,
+            request.depth,
+            request.include_sources,
+            priorFindings
+          )
         );
         
         agent.status = 'completed';
         agent.results = results;
+        progress.update(`Finished researching ${agent.area}`);
       } catch (error) {
-        agent.status = 'failed';
-        console.error(`Failed to research ${agent.area}:`, error);
+        if (signal?.aborted) {
+          agent.status = 'cancelled';
+          progress.update(`Cancelled research on ${agent.area}`);
+        } else {
+          agent.status = 'failed';
+          agent.error = describeFailure(error);
+          console.error(`Failed to research ${agent.area}:`, error);
+          progress.update(`Research on ${agent.area} failed: ${agent.error.message}`);
+        }
       }
+
+      await this.storage.put('legacy_subagents', taskId, subAgents);
       
-      return agent;
-    });
+      return agent.status === 'completed';
+    };
 
-    if (request.execution_mode === 'parallel') {
-      await Promise.all(researchPromises);
-    } else {
-      for (const promise of researchPromises) {
-        await promise;
+    // Agents that depend on an area that did not complete are not run
+    const skipBlocked = async (agent: SubAgent, dependency: SubAgent): Promise<void> => {
+      if (signal?.aborted) {
+        agent.status = 'cancelled';
+        progress.update(`Skipped ${agent.area}: research was cancelled`);
+      } else {
+        agent.status = 'failed';
+        agent.error = {
+          kind: 'dependency_failed',
+          message: `Depends on ${dependency.area}, which did not complete`
+        };
+        progress.update(`Skipped ${agent.area}: ${dependency.area} did not complete`);
       }
+      await this.storage.put('legacy_subagents', taskId, subAgents);
+    };
+
+    if (request.execution_mode === 'dependency') {
+      await runWithDependencies(subAgents, maxAgents, dependenciesOf, runAgent, skipBlocked);
+    } else if (request.execution_mode === 'parallel') {
+      await runWithConcurrency(subAgents, maxAgents, async agent => { await runAgent(agent); });
+    } else {
+      await runWithConcurrency(subAgents, 1, async agent => { await runAgent(agent); });
     }
+    progress.finish(signal?.aborted ? 'Research cancelled' : 'Research completed');
 
     return subAgents;
   }
@@ -120,37 +269,52 @@ export class ResearchTaskManager {
     taskId: string,
     request: SynthesizeFindingsRequest
   ): Promise<TaskSynthesis> {
+    if (!this.getTask(taskId)) {
+      throw new NotFoundError(`Task ${taskId} not found`);
+    }
     const subAgents = this.subAgents.get(taskId);
     if (!subAgents) {
-      throw new Error(`No subagents found for task ${taskId}`);
+      throw new InvalidStateError(`No subagents found for task ${taskId}`);
     }
 
     const completedAgents = subAgents.filter(a => a.status === 'completed');
     if (completedAgents.length === 0) {
-      throw new Error('No completed subagent research to synthesize');
+      throw new InvalidStateError('No completed subagent research to synthesize');
     }
 
     // Use Claude to synthesize the findings
-    const { synthesis, recommendation } = await this.synthesisAgent.synthesizeFindings(
-      completedAgents,
-      request.dimensions_to_compare,
-      request.goal
+    const { synthesis, recommendation } = await runInLLMScope({ kind: 'task', id: taskId }, () =>
+      this.synthesisAgent.synthesizeFindings(
+        completedAgents,
+        request.dimensions_to_compare,
+        request.goal
+      )
     );
 
     this.syntheses.set(taskId, synthesis);
+    await this.storage.put('legacy_syntheses', taskId, synthesis);
     return synthesis;
   }
 
   async getOpportunityRecommendation(taskId: string): Promise<TaskRecommendation> {
+    if (!this.getTask(taskId)) {
+      throw new NotFoundError(`Task ${taskId} not found`);
+    }
     const synthesis = this.syntheses.get(taskId);
     if (!synthesis) {
-      throw new Error(`No synthesis found for task ${taskId}`);
+      throw new InvalidStateError(`No synthesis found for task ${taskId}`);
     }
 
     if (!synthesis.recommendation) {
-      throw new Error('No recommendation available. Please run synthesizeFindings first.');
+      throw new InvalidStateError('No recommendation available. Please run synthesizeFindings first.');
     }
 
     return synthesis.recommendation;
   }
-}
\ No newline at end of file
+
+  // Tasks belonging to other owners are reported as missing
+  private getTask(taskId: string): ResearchTask | undefined {
+    const task = this.tasks.get(taskId);
+    return task && isVisibleToCurrentOwner(task) ? task : undefined;
+  }
+}
@@ -0,0 +1,184 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { SubAgentFailure } from './types.js';
+import { BudgetExceededError } from './budget.js';
+import { UpstreamLLMError } from './errors.js';
+
+export type LLMErrorKind =
+  | 'rate_limit'
+  | 'overloaded'
+  | 'server'
+  | 'timeout'
+  | 'connection'
+  | 'auth'
+  | 'invalid_request'
+  | 'cancelled'
+  | 'unknown';
+
+export interface ErrorClassification {
+  kind: LLMErrorKind;
+  retryable: boolean;
+  status?: number;
+  // Server-requested delay before the next attempt, from retry-after headers
+  retryAfterMs?: number;
+}
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+// Raised once an LLM call has failed for good, either because the error is not
+// retryable or because every retry was used up
+export class LLMCallError extends UpstreamLLMError {
+  constructor(
+    message: string,
+    public readonly kind: LLMErrorKind,
+    public readonly attempts: number,
+    public readonly status?: number,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'LLMCallError';
+  }
+}
+
+export function classifyLLMError(error: unknown): ErrorClassification {
+  if (
+    error instanceof Anthropic.APIUserAbortError ||
+    (error instanceof Error && error.name === 'AbortError')
+  ) {
+    return { kind: 'cancelled', retryable: false };
+  }
+  // The timeout error is a subclass of the connection error, so check it first
+  if (error instanceof Anthropic.APIConnectionTimeoutError) {
+    return { kind: 'timeout', retryable: true };
+  }
+  if (error instanceof Anthropic.APIConnectionError) {
+    return { kind: 'connection', retryable: true };
+  }
+  if (error instanceof Anthropic.APIError && error.status !== undefined) {
+    const status = error.status;
+    const retryAfterMs = parseRetryAfter(error.headers);
+
+    if (status === 429) {
+      return { kind: 'rate_limit', retryable: true, status, retryAfterMs };
+    }
+    if (status === 529) {
+      return { kind: 'overloaded', retryable: true, status, retryAfterMs };
+    }
+    if (status === 408) {
+      return { kind: 'timeout', retryable: true, status, retryAfterMs };
+    }
+    if (status >= 500) {
+      return { kind: 'server', retryable: true, status, retryAfterMs };
+    }
+    if (status === 401 || status === 403) {
+      return { kind: 'auth', retryable: false, status };
+    }
+    if (status >= 400) {
+      return { kind: 'invalid_request', retryable: false, status };
+    }
+  }
+  return { kind: 'unknown', retryable: false };
+}
+
+function parseRetryAfter(headers: { get(name: string): string | null } | undefined): number | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const retryAfterMs = Number(headers.get('retry-after-ms'));
+  if (headers.get('retry-after-ms') !== null && Number.isFinite(retryAfterMs)) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter === null) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Full jitter: a random delay up to the exponential cap for this attempt
+export function backoffDelay(attempt: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  const jittered = Math.random() * cap;
+  return retryAfterMs !== undefined
+    ? Math.min(policy.maxDelayMs, Math.max(retryAfterMs, jittered))
+    : jittered;
+}
+
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  classify: (error: unknown) => ErrorClassification = classifyLLMError,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      signal?.throwIfAborted();
+      return await operation();
+    } catch (error) {
+      const classification = classify(error);
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (!classification.retryable || attempt >= policy.maxRetries) {
+        const reason = classification.retryable
+          ? `gave up after ${attempt + 1} attempts`
+          : 'not retryable';
+        throw new LLMCallError(
+          `LLM call failed (${classification.kind}, ${reason}): ${message}`,
+          classification.kind,
+          attempt + 1,
+          classification.status,
+          error
+        );
+      }
+
+      const delay = backoffDelay(attempt, policy, classification.retryAfterMs);
+      console.error(
+        `LLM call failed (${classification.kind}). Retrying in ${Math.round(delay)}ms (attempt ${attempt + 2}/${policy.maxRetries + 1})...`
+      );
+      await abortableSleep(delay, signal);
+    }
+  }
+}
+
+// Resolves early when the signal aborts; the next attempt then fails as cancelled
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+export function describeFailure(error: unknown): SubAgentFailure {
+  if (error instanceof LLMCallError) {
+    return { kind: error.kind, message: error.message, attempts: error.attempts };
+  }
+  if (error instanceof BudgetExceededError) {
+    return { kind: 'budget_exceeded', message: error.message };
+  }
+  return {
+    kind: classifyLLMError(error).kind,
+    message: error instanceof Error ? error.message : String(error)
+  };
+}
\ No newline at end of file
@@ -0,0 +1,176 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+export type StorageCollection =
+  | 'configs'
+  | 'tasks'
+  | 'subagents'
+  | 'syntheses'
+  | 'sessions'
+  | 'legacy_tasks'
+  | 'legacy_subagents'
+  | 'legacy_syntheses'
+  | 'cassettes'
+  | 'costs';
+
+export interface StoredEntry<T> {
+  id: string;
+  value: T;
+}
+
+export interface ResearchStorage {
+  get<T>(collection: StorageCollection, id: string): Promise<T | undefined>;
+  put<T>(collection: StorageCollection, id: string, value: T): Promise<void>;
+  delete(collection: StorageCollection, id: string): Promise<void>;
+  entries<T>(collection: StorageCollection): Promise<StoredEntry<T>[]>;
+}
+
+// Dates are tagged explicitly so they survive the JSON round-trip as Date objects
+// rather than coming back as ISO strings
+function serialize(value: unknown): string {
+  return JSON.stringify(value, function (this: any, key: string, current: unknown) {
+    const raw = this[key];
+    if (raw instanceof Date) {
+      return { $date: raw.toISOString() };
+    }
+    return current;
+  }, 2);
+}
+
+function deserialize<T>(text: string): T {
+  return JSON.parse(text, (_key, value) => {
+    if (
+      value &&
+      typeof value === 'object' &&
+      typeof value.$date === 'string' &&
+      Object.keys(value).length === 1
+    ) {
+      return new Date(value.$date);
+    }
+    return value;
+  });
+}
+
+export class MemoryStorage implements ResearchStorage {
+  private collections: Map<StorageCollection, Map<string, string>> = new Map();
+
+  async get<T>(collection: StorageCollection, id: string): Promise<T | undefined> {
+    const stored = this.collection(collection).get(id);
+    return stored === undefined ? undefined : deserialize<T>(stored);
+  }
+
+  async put<T>(collection: StorageCollection, id: string, value: T): Promise<void> {
+    this.collection(collection).set(id, serialize(value));
+  }
+
+  async delete(collection: StorageCollection, id: string): Promise<void> {
+    this.collection(collection).delete(id);
+  }
+
+  async entries<T>(collection: StorageCollection): Promise<StoredEntry<T>[]> {
+    return Array.from(this.collection(collection).entries()).map(([id, stored]) => ({
+      id,
+      value: deserialize<T>(stored)
+    }));
+  }
+
+  private collection(name: StorageCollection): Map<string, string> {
+    let collection = this.collections.get(name);
+    if (!collection) {
+      collection = new Map();
+      this.collections.set(name, collection);
+    }
+    return collection;
+  }
+}
+
+export class FileStorage implements ResearchStorage {
+  private readonly baseDir: string;
+  // Writes to the same record are chained so an older snapshot never overwrites a newer one
+  private pendingWrites: Map<string, Promise<void>> = new Map();
+
+  constructor(baseDir: string) {
+    this.baseDir = baseDir;
+  }
+
+  async get<T>(collection: StorageCollection, id: string): Promise<T | undefined> {
+    const filePath = this.filePath(collection, id);
+    await this.pendingWrites.get(filePath);
+
+    try {
+      return deserialize<T>(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async put<T>(collection: StorageCollection, id: string, value: T): Promise<void> {
+    const filePath = this.filePath(collection, id);
+    // Snapshot now: callers keep mutating the same objects after handing them over
+    const contents = serialize(value);
+
+    const previous = this.pendingWrites.get(filePath) ?? Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(() => this.writeAtomically(filePath, contents));
+
+    this.pendingWrites.set(filePath, write);
+    try {
+      await write;
+    } finally {
+      if (this.pendingWrites.get(filePath) === write) {
+        this.pendingWrites.delete(filePath);
+      }
+    }
+  }
+
+  async delete(collection: StorageCollection, id: string): Promise<void> {
+    const filePath = this.filePath(collection, id);
+    await this.pendingWrites.get(filePath);
+    await fs.rm(filePath, { force: true });
+  }
+
+  async entries<T>(collection: StorageCollection): Promise<StoredEntry<T>[]> {
+    const dir = path.join(this.baseDir, collection);
+
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: StoredEntry<T>[] = [];
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      const id = decodeURIComponent(file.slice(0, -'.json'.length));
+      try {
+        entries.push({
+          id,
+          value: deserialize<T>(await fs.readFile(path.join(dir, file), 'utf8'))
+        });
+      } catch (error) {
+        console.error(`Skipping unreadable ${collection} record ${id}:`, error);
+      }
+    }
+
+    return entries;
+  }
+
+  private filePath(collection: StorageCollection, id: string): string {
+    return path.join(this.baseDir, collection, `${encodeURIComponent(id)}.json`);
+  }
+
+  private async writeAtomically(filePath: string, contents: string): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, contents, 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+}
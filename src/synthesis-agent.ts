@@ -1,17 +1,11 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { SubAgent, TaskSynthesis, TaskRecommendation } from './types.js';
-import { RateLimiter } from './rate-limiter.js';
+import { LLMClient } from './llm-client.js';
 
 export class SynthesisAgent {
-  private anthropic: Anthropic;
-  private rateLimiter: RateLimiter;
+  private llm: LLMClient;
 
-  constructor(apiKey: string) {
-    this.anthropic = new Anthropic({
-      apiKey: apiKey,
-    });
-    // Share rate limiter for Claude API
-    this.rateLimiter = new RateLimiter(10, 60000);
+  constructor(llm: LLMClient) {
+    this.llm = llm;
   }
 
   async synthesizeFindings(
@@ -49,33 +43,14 @@ Please provide:
 4. Confidence level in your recommendation (0-1)`;
 
     try {
-      // Wait if rate limited
-      await this.rateLimiter.waitIfNeeded();
-
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 4000,
-        temperature: 0.5,
+      const synthesisText = await this.llm.complete({
+        role: 'legacy_synthesis',
         system: systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: userPrompt,
-          },
-        ],
+        prompt: userPrompt,
       });
 
-      const synthesisText = response.content[0].type === 'text' 
-        ? response.content[0].text 
-        : '';
-
       return this.parseSynthesisResponse(synthesisText, completedAgents, dimensionsToCompare);
     } catch (error) {
-      if (error instanceof Error && error.message.includes('rate_limit')) {
-        console.error('Rate limit error during synthesis. Retrying...');
-        await new Promise(resolve => setTimeout(resolve, 10000));
-        return this.synthesizeFindings(subAgents, dimensionsToCompare, goal);
-      }
       console.error('Error synthesizing findings:', error);
       throw error;
     }
@@ -0,0 +1,619 @@
+import { JSONSchema, validateJSONSchema } from './json-schema.js';
+import { InvalidArgumentError, NotFoundError, describeError } from './errors.js';
+import { RESEARCH_DOMAINS } from './research-plan-editor.js';
+import { MAX_PAGE_SIZE, DEFAULT_PAGE_SIZE } from './research-search.js';
+import {
+  ConfigureResearchRequest,
+  ContinueConfigurationRequest,
+  CreateResearchTaskRequest,
+  GenerateResearchPlanRequest,
+  ListConfigurationSessionsRequest,
+  ListResearchRequest,
+  ListResearchTasksRequest,
+  PlanOperation,
+  RetryFailedDimensionsRequest,
+  RunFlexibleResearchRequest,
+  RunSubagentResearchRequest
+} from './types.js';
+
+// Shared by runFlexibleResearch and startResearch
+const runResearchInputSchema: JSONSchema & { type: 'object' } = {
+  type: 'object',
+  properties: {
+    configId: { 
+      type: 'string', 
+      description: 'Research configuration ID' 
+    },
+    executionMode: {
+      type: 'string',
+      enum: ['parallel', 'sequential'],
+      description: 'How to run research agents',
+      default: 'parallel'
+    },
+    includeQualityReview: {
+      type: 'boolean',
+      description: 'Whether to perform quality review of results',
+      default: true
+    },
+    maxAgents: {
+      type: 'number',
+      description: 'Maximum concurrent agents for parallel execution; the next dimension starts as soon as one finishes',
+      default: 5
+    },
+    dimensionTimeoutMs: {
+      type: 'number',
+      description: 'Fail a dimension that is still running after this many milliseconds; other dimensions carry on'
+    },
+    depth: {
+      type: 'string',
+      enum: ['basic', 'comprehensive', 'exhaustive'],
+      description: 'Research depth for every dimension; exhaustive makes follow-up passes to fill gaps and costs more',
+      default: 'comprehensive'
+    },
+    includeSources: {
+      type: 'boolean',
+      description: 'Whether to ask for and keep sources for every dimension',
+      default: true
+    },
+    iterative: {
+      type: 'boolean',
+      description: 'Break each dimension into sub-questions, answer them, and ask follow-ups about criteria and data points left unaddressed',
+      default: false
+    },
+    maxIterations: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Maximum passes for iterative research, the first included',
+      default: 3
+    },
+    dimensionSettings: {
+      type: 'object',
+      description: 'Depth and sources for individual dimensions, by dimension ID, e.g. { "pricing": { "depth": "exhaustive" } }',
+      additionalProperties: {
+        type: 'object',
+        properties: {
+          depth: { type: 'string', enum: ['basic', 'comprehensive', 'exhaustive'] },
+          includeSources: { type: 'boolean' },
+          iterative: { type: 'boolean' },
+          maxIterations: { type: 'integer', minimum: 1 }
+        },
+        additionalProperties: false
+      }
+    },
+    models: {
+      type: 'object',
+      description: 'Per-role model overrides for this run, e.g. { "research": { "model": "...", "maxTokens": 4000, "temperature": 0.7 } }',
+      properties: Object.fromEntries(
+        ['research', 'structuring', 'synthesis', 'summary', 'quality_review'].map(role => [
+          role,
+          {
+            type: 'object',
+            properties: {
+              model: { type: 'string' },
+              maxTokens: { type: 'number' },
+              temperature: { type: 'number' }
+            }
+          }
+        ])
+      )
+    },
+    budget: {
+      type: 'object',
+      description: 'Caps for this run. Close to a cap, remaining dimensions run at basic depth and the executive summary is skipped; at a cap the run stops and returns partial results',
+      properties: {
+        maxTokens: { type: 'number', description: 'Maximum input plus output tokens' },
+        maxCostUsd: { type: 'number', description: 'Maximum estimated cost in USD' },
+        maxCalls: { type: 'number', description: 'Maximum number of LLM calls' },
+        maxDurationMs: { type: 'number', description: 'Maximum wall-clock time in milliseconds' }
+      }
+    }
+  },
+  required: ['configId']
+};
+
+// A runResearchInputSchema property for retryFailedDimensions, which defaults to the
+// settings of the run being retried rather than to the schema default
+function inheritedFromRun(property: string, description?: string): JSONSchema {
+  const { default: _default, ...schema } = runResearchInputSchema.properties![property];
+  return {
+    ...schema,
+    description: `${description ?? schema.description}; defaults to the original run's setting`
+  };
+}
+
+// Filters and pagination shared by the list tools
+const listQueryProperties: Record<string, JSONSchema> = {
+  text: { type: 'string', description: 'Case-insensitive text to look for in topics, titles and questions' },
+  domain: { type: 'string', enum: RESEARCH_DOMAINS, description: 'Research domain' },
+  createdAfter: { type: 'string', description: 'Only items created at or after this ISO 8601 date' },
+  createdBefore: { type: 'string', description: 'Only items created before this ISO 8601 date' },
+  cursor: { type: 'string', description: 'nextCursor from the previous page' },
+  limit: {
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_PAGE_SIZE,
+    description: 'Items per page, newest first',
+    default: DEFAULT_PAGE_SIZE
+  }
+};
+
+// Arguments of runFlexibleResearch and startResearch; the schema defaults apply when omitted
+export type RunResearchArguments = Omit<RunFlexibleResearchRequest, 'executionMode' | 'includeQualityReview'> &
+  Partial<Pick<RunFlexibleResearchRequest, 'executionMode' | 'includeQualityReview'>>;
+
+interface TaskArguments {
+  taskId: string;
+}
+
+// Arguments of each tool, as guaranteed by its inputSchema once validated
+export interface ToolArguments {
+  configureResearch: ConfigureResearchRequest;
+  continueConfiguration: ContinueConfigurationRequest;
+  generateResearchPlan: GenerateResearchPlanRequest;
+  modifyResearchPlan: { configId: string; operations: PlanOperation[] };
+  runFlexibleResearch: RunResearchArguments;
+  startResearch: RunResearchArguments;
+  getResearchStatus: TaskArguments;
+  cancelResearch: TaskArguments;
+  getResearchResult: TaskArguments;
+  retryFailedDimensions: RetryFailedDimensionsRequest;
+  getTaskCost: TaskArguments & { includeCalls?: boolean };
+  listResearchConfigs: ListResearchRequest;
+  listResearchTasks: ListResearchTasksRequest;
+  listConfigurationSessions: ListConfigurationSessionsRequest;
+  getResearchTask: TaskArguments;
+  createResearchTask: CreateResearchTaskRequest;
+  defineEvaluationAreas: TaskArguments & { areas: string[] };
+  initializeSubagents: {
+    parentTaskId: string;
+    subagents: { area: string; objectives: string[]; dependsOn?: string[] }[];
+  };
+  runSubagentResearch: TaskArguments & {
+    executionMode?: RunSubagentResearchRequest['execution_mode'];
+    maxAgents?: number;
+    depth?: RunSubagentResearchRequest['depth'];
+    includeSources?: boolean;
+  };
+  synthesizeFindings: TaskArguments & { dimensionsToCompare: string[]; goal: string };
+  getOpportunityRecommendation: TaskArguments;
+}
+
+export type ToolName = keyof ToolArguments;
+
+// A validated call; switching on name narrows arguments to that tool's type
+export type ToolCall = { [N in ToolName]: { name: N; arguments: ToolArguments[N] } }[ToolName];
+
+export interface ToolDefinition {
+  name: ToolName;
+  description: string;
+  inputSchema: JSONSchema & { type: 'object' };
+}
+
+// Arguments of every call are validated against the tool's inputSchema
+export const tools: ToolDefinition[] = [
+  // New flexible research tools
+  {
+    name: 'configureResearch',
+    description: 'Start an interactive conversation to configure research for any topic',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        initialDescription: { 
+          type: 'string', 
+          description: 'Initial description of what you want to research' 
+        },
+        suggestTemplates: { 
+          type: 'boolean', 
+          description: 'Whether to suggest research templates based on the description',
+          default: true
+        }
+      },
+      required: ['initialDescription']
+    }
+  },
+  {
+    name: 'continueConfiguration',
+    description: 'Continue the research configuration conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { 
+          type: 'string', 
+          description: 'Configuration session ID' 
+        },
+        userResponse: { 
+          type: 'string', 
+          description: 'Your response to the configuration questions' 
+        }
+      },
+      required: ['sessionId', 'userResponse']
+    }
+  },
+  {
+    name: 'generateResearchPlan',
+    description: 'Generate a research plan from the configuration conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { 
+          type: 'string', 
+          description: 'Configuration session ID' 
+        },
+        includeQualityReview: { 
+          type: 'boolean', 
+          description: 'Whether to include quality review in the plan',
+          default: true
+        }
+      },
+      required: ['sessionId']
+    }
+  },
+  {
+    name: 'modifyResearchPlan',
+    description: 'Edit a generated research plan with add/remove/reorder/update operations',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        configId: {
+          type: 'string',
+          description: 'Research configuration ID returned by generateResearchPlan'
+        },
+        operations: {
+          type: 'array',
+          description: 'Edit operations applied in order; the plan is only saved if all succeed',
+          items: {
+            type: 'object',
+            properties: {
+              op: {
+                type: 'string',
+                enum: [
+                  'addDimension',
+                  'removeDimension',
+                  'reorderDimensions',
+                  'updateDimension',
+                  'addQualityCheck',
+                  'removeQualityCheck',
+                  'updateQualityCheck',
+                  'updateContext',
+                  'updatePlan'
+                ]
+              },
+              dimension: {
+                type: 'object',
+                description: 'Dimension to add (addDimension)',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  description: { type: 'string' },
+                  evaluationCriteria: { type: 'array', items: { type: 'string' } },
+                  dataPoints: { type: 'array', items: { type: 'string' } },
+                  weight: { type: 'number' }
+                },
+                required: ['id', 'name', 'description', 'evaluationCriteria', 'dataPoints']
+              },
+              position: {
+                type: 'number',
+                description: 'Insert position for addDimension (defaults to the end)'
+              },
+              dimensionId: {
+                type: 'string',
+                description: 'Target dimension (removeDimension, updateDimension)'
+              },
+              order: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Every dimension ID in the new order (reorderDimensions)'
+              },
+              check: {
+                type: 'object',
+                description: 'Quality check to add (addQualityCheck)',
+                properties: {
+                  type: {
+                    type: 'string',
+                    enum: ['completeness', 'accuracy', 'bias', 'consistency', 'depth']
+                  },
+                  criteria: { type: 'array', items: { type: 'string' } },
+                  threshold: { type: 'number' }
+                },
+                required: ['type', 'criteria', 'threshold']
+              },
+              type: {
+                type: 'string',
+                enum: ['completeness', 'accuracy', 'bias', 'consistency', 'depth'],
+                description: 'Target quality check (removeQualityCheck, updateQualityCheck)'
+              },
+              changes: {
+                type: 'object',
+                description: 'Fields to change (updateDimension, updateQualityCheck, updateContext, updatePlan)'
+              }
+            },
+            required: ['op']
+          }
+        }
+      },
+      required: ['configId', 'operations']
+    }
+  },
+  {
+    name: 'runFlexibleResearch',
+    description: 'Execute research based on a configured plan',
+    inputSchema: runResearchInputSchema
+  },
+  {
+    name: 'startResearch',
+    description: 'Start research based on a configured plan in the background and return its task ID immediately',
+    inputSchema: runResearchInputSchema
+  },
+  {
+    name: 'getResearchStatus',
+    description: 'Get the phase of a research task and the status and partial results of each dimension',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Research task ID' }
+      },
+      required: ['taskId']
+    }
+  },
+  {
+    name: 'cancelResearch',
+    description: 'Cancel a research task running in the background, keeping the dimensions already finished',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Research task ID' }
+      },
+      required: ['taskId']
+    }
+  },
+  {
+    name: 'getResearchResult',
+    description: 'Get the synthesis and cost of a completed research task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Research task ID' }
+      },
+      required: ['taskId']
+    }
+  },
+  {
+    name: 'retryFailedDimensions',
+    description: 'Re-run the failed dimensions of a finished research task, or the ones listed, then review and synthesize again. Other dimensions keep their findings',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Research task ID' },
+        dimensionIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Dimensions to re-run; defaults to every dimension that did not complete'
+        },
+        depth: inheritedFromRun('depth', 'Research depth for the re-run dimensions'),
+        includeSources: inheritedFromRun('includeSources', 'Whether to ask for and keep sources for the re-run dimensions'),
+        iterative: inheritedFromRun('iterative'),
+        maxIterations: inheritedFromRun('maxIterations'),
+        dimensionSettings: inheritedFromRun('dimensionSettings', 'Per-dimension settings replacing those of the original run'),
+        executionMode: inheritedFromRun('executionMode'),
+        includeQualityReview: inheritedFromRun('includeQualityReview'),
+        maxAgents: inheritedFromRun('maxAgents'),
+        dimensionTimeoutMs: inheritedFromRun('dimensionTimeoutMs'),
+        models: inheritedFromRun('models', 'Per-role model overrides for the retry, replacing those of the original run role by role'),
+        budget: inheritedFromRun('budget', 'Caps for the retry alone; usage from earlier runs of the task does not count')
+      },
+      required: ['taskId']
+    }
+  },
+  {
+    name: 'getTaskCost',
+    description: 'Get token usage and estimated cost of a research task, broken down by phase and sub-agent',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Research task ID' },
+        includeCalls: {
+          type: 'boolean',
+          description: 'Whether to include the usage of every individual LLM call',
+          default: false
+        }
+      },
+      required: ['taskId']
+    }
+  },
+  {
+    name: 'listResearchConfigs',
+    description: 'List research plans, filtered by topic text, domain and creation date',
+    inputSchema: {
+      type: 'object',
+      properties: listQueryProperties
+    }
+  },
+  {
+    name: 'listResearchTasks',
+    description: 'List research tasks, filtered by status, topic text, domain and creation date',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...listQueryProperties,
+        status: {
+          type: 'string',
+          enum: ['pending', 'in_progress', 'completed', 'failed', 'cancelled'],
+          description: 'Task status'
+        }
+      }
+    }
+  },
+  {
+    name: 'listConfigurationSessions',
+    description: 'List configuration conversations, filtered by status, text, domain and start date',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...listQueryProperties,
+        status: {
+          type: 'string',
+          enum: ['active', 'completed', 'abandoned'],
+          description: 'Session status'
+        }
+      }
+    }
+  },
+  {
+    name: 'getResearchTask',
+    description: 'Get a research task with the plan it was created from and its synthesis, if finished',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Research task ID' }
+      },
+      required: ['taskId']
+    }
+  },
+  // Legacy tools for backward compatibility
+  {
+    name: 'createResearchTask',
+    description: '[Legacy] Create a research task for LLM evaluation tools',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Title of the research task' },
+        goal: { type: 'string', description: 'Goal of the research' },
+        strategy: { type: 'string', description: 'Research strategy to use' }
+      },
+      required: ['title', 'goal', 'strategy']
+    }
+  },
+  {
+    name: 'defineEvaluationAreas',
+    description: '[Legacy] Define evaluation areas for a research task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'ID of the research task' },
+        areas: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'List of evaluation areas to research'
+        }
+      },
+      required: ['taskId', 'areas']
+    }
+  },
+  {
+    name: 'initializeSubagents',
+    description: '[Legacy] Initialize subagents for parallel research execution',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        parentTaskId: { type: 'string', description: 'Parent task ID' },
+        subagents: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              area: { type: 'string' },
+              objectives: {
+                type: 'array',
+                items: { type: 'string' }
+              },
+              dependsOn: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Areas whose findings this one builds on; used by the dependency execution mode'
+              }
+            },
+            required: ['area', 'objectives']
+          }
+        }
+      },
+      required: ['parentTaskId', 'subagents']
+    }
+  },
+  {
+    name: 'runSubagentResearch',
+    description: '[Legacy] Execute subagent research in parallel, sequential or dependency order',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Task ID' },
+        executionMode: {
+          type: 'string',
+          enum: ['parallel', 'sequential', 'dependency'],
+          description: 'sequential runs one subagent at a time; parallel runs up to maxAgents at once; dependency also waits for the areas each subagent depends on'
+        },
+        maxAgents: {
+          type: 'number',
+          description: 'Maximum concurrent subagents for the parallel and dependency modes',
+          default: 5
+        },
+        depth: {
+          type: 'string',
+          enum: ['basic', 'comprehensive'],
+          description: 'Research depth'
+        },
+        includeSources: {
+          type: 'boolean',
+          description: 'Include sources in results'
+        }
+      },
+      required: ['taskId']
+    }
+  },
+  {
+    name: 'synthesizeFindings',
+    description: '[Legacy] Synthesize findings from all subagent research',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Task ID' },
+        dimensionsToCompare: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Dimensions to compare across areas'
+        },
+        goal: { type: 'string', description: 'Synthesis goal' }
+      },
+      required: ['taskId', 'dimensionsToCompare', 'goal']
+    }
+  },
+  {
+    name: 'getOpportunityRecommendation',
+    description: '[Legacy] Get the final opportunity recommendation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Task ID' }
+      },
+      required: ['taskId']
+    }
+  }
+];
+
+// Throws NotFoundError for unknown tools and InvalidArgumentError listing every
+// schema violation, before any handler sees the arguments. Returns the typed call
+export function validateToolArguments(name: string, args: Record<string, unknown> = {}): ToolCall {
+  const tool = tools.find(t => t.name === name);
+  if (!tool) {
+    throw new NotFoundError(`Unknown tool: ${name}`);
+  }
+  const errors = validateJSONSchema(args, tool.inputSchema, 'arguments');
+  if (errors.length > 0) {
+    throw new InvalidArgumentError(`Invalid arguments for ${name}: ${errors.join('; ')}`);
+  }
+  // The schema check above is what makes the arguments match ToolArguments
+  return { name: tool.name, arguments: args } as ToolCall;
+}
+
+// Failed calls are tool results with isError set, carrying a machine-readable code
+export function toolErrorResult(error: unknown) {
+  const { code, message } = describeError(error);
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify({ error: { code, message } }, null, 2),
+      },
+    ],
+  };
+}
@@ -1,15 +1,30 @@
+import { ModelOverrides } from './model-routing.js';
+import { LLMErrorKind } from './retry.js';
+import { ProgressListener } from './progress.js';
+
 // Legacy compatibility type
 export interface ResearchTask {
   id: string;
   title: string;
   goal: string;
   strategy: string;
-  status: 'pending' | 'in_progress' | 'completed';
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
   areas?: string[];
+  // Stage a flexible research run is in while in progress
+  phase?: ResearchPhase;
+  error?: string;
+  // User or workspace the task belongs to; unset for tasks created over stdio
+  ownerId?: string;
+  // Plan a flexible research task was created from
+  configId?: string;
+  // Settings the latest flexible research run was started with; retries default to them
+  runRequest?: RunFlexibleResearchRequest;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type ResearchPhase = 'research' | 'quality_review' | 'synthesis' | 'summary';
+
 export type ResearchDomain = 
   | 'market_research'
   | 'academic_research'
@@ -48,6 +63,8 @@ export interface ResearchConfig {
   dimensions: ResearchDimension[];
   outputFormat: OutputFormat;
   qualityChecks: QualityCheckConfig[];
+  ownerId?: string;
+  createdAt?: Date;
 }
 
 export interface QualityCheckConfig {
@@ -70,6 +87,7 @@ export interface ConversationState {
   clarificationNeeded: string[];
   suggestedTemplate?: string;
   status: 'active' | 'completed' | 'abandoned';
+  ownerId?: string;
 }
 
 export interface ResearchTemplate {
@@ -87,8 +105,26 @@ export interface FlexibleSubAgent {
   id: string;
   parentTaskId: string;
   dimension: ResearchDimension;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   results?: DimensionResults;
+  error?: SubAgentFailure;
+  timing?: SubAgentTiming;
+}
+
+// How long a sub-agent waited for a free slot and how long its research took
+export interface SubAgentTiming {
+  queuedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  queueWaitMs?: number;
+  executionMs?: number;
+}
+
+// Why a sub-agent failed, kept so callers can tell transient from permanent failures
+export interface SubAgentFailure {
+  kind: LLMErrorKind | 'budget_exceeded' | 'dependency_failed';
+  message: string;
+  attempts?: number;
 }
 
 export interface DimensionResults {
@@ -98,6 +134,24 @@ export interface DimensionResults {
   confidence: number;
   sources?: string[];
   metadata?: Record<string, any>;
+  // Set when the findings could not be structured; only the raw text is kept
+  parseError?: string;
+  // Set when iterative research was cut off part way; only the answers given by then are
+  // kept, unstructured
+  truncated?: boolean;
+  // Iterative research only: the questions asked, follow-ups nested under the question they deepen
+  subQuestions?: SubQuestion[];
+}
+
+export interface SubQuestion {
+  id: string;
+  question: string;
+  // Evaluation criteria and data points the question is meant to cover
+  targets: string[];
+  // 1 for the first decomposition, then one more for each follow-up pass
+  iteration: number;
+  answer?: string;
+  children: SubQuestion[];
 }
 
 export interface QualityReviewResult {
@@ -111,6 +165,8 @@ export interface QualityReviewResult {
   }[];
   recommendations: string[];
   confidence: number;
+  // Set when the review could not be structured; scores are then meaningless
+  parseError?: string;
 }
 
 export interface ResearchSynthesis {
@@ -125,6 +181,35 @@ export interface ResearchSynthesis {
   };
   executiveSummary?: string;
   qualityReview?: QualityReviewResult;
+  // Set when the synthesis could not be structured; rawSynthesis holds the model output
+  parseError?: string;
+  rawSynthesis?: string;
+  // Present when the run had a budget
+  budget?: BudgetReport;
+  // Set when the run was cancelled; only the dimensions finished by then are included
+  cancelled?: boolean;
+}
+
+export interface ResearchBudget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+  maxCalls?: number;
+  maxDurationMs?: number;
+}
+
+export interface BudgetReport {
+  limits: ResearchBudget;
+  usage: {
+    tokens: number;
+    costUsd: number;
+    calls: number;
+    durationMs: number;
+  };
+  // A cap was approached, so remaining dimensions ran at basic depth and the executive summary was skipped
+  degraded: boolean;
+  // A cap was reached and the run stopped early; results are partial
+  truncated: boolean;
+  reason?: string;
 }
 
 // API Request Types
@@ -143,9 +228,22 @@ export interface GenerateResearchPlanRequest {
   includeQualityReview?: boolean;
 }
 
+export type ResearchContext = ResearchConfig['context'];
+
+export type PlanOperation =
+  | { op: 'addDimension'; dimension: ResearchDimension; position?: number }
+  | { op: 'removeDimension'; dimensionId: string }
+  | { op: 'reorderDimensions'; order: string[] }
+  | { op: 'updateDimension'; dimensionId: string; changes: Partial<Omit<ResearchDimension, 'id'>> }
+  | { op: 'addQualityCheck'; check: QualityCheckConfig }
+  | { op: 'removeQualityCheck'; type: QualityCheckConfig['type'] }
+  | { op: 'updateQualityCheck'; type: QualityCheckConfig['type']; changes: Partial<Omit<QualityCheckConfig, 'type'>> }
+  | { op: 'updateContext'; changes: Partial<ResearchContext> }
+  | { op: 'updatePlan'; changes: { topic?: string; outputFormat?: OutputFormat } };
+
 export interface ModifyResearchPlanRequest {
   planId: string;
-  modifications: Partial<ResearchConfig>;
+  operations: PlanOperation[];
 }
 
 export interface RunFlexibleResearchRequest {
@@ -153,6 +251,102 @@ export interface RunFlexibleResearchRequest {
   executionMode: 'parallel' | 'sequential';
   includeQualityReview: boolean;
   maxAgents?: number;
+  // A dimension still running after this long fails with a timeout
+  dimensionTimeoutMs?: number;
+  // Defaults for every dimension: comprehensive, with sources, in a single pass
+  depth?: ResearchDepth;
+  includeSources?: boolean;
+  iterative?: boolean;
+  maxIterations?: number;
+  // Overrides by dimension ID
+  dimensionSettings?: Record<string, DimensionResearchSettings>;
+  models?: ModelOverrides;
+  budget?: ResearchBudget;
+}
+
+// exhaustive researches the dimension again to fill the gaps left by earlier passes
+export type ResearchDepth = 'basic' | 'comprehensive' | 'exhaustive';
+
+export interface DimensionResearchSettings {
+  depth?: ResearchDepth;
+  includeSources?: boolean;
+  // Breaks the dimension into sub-questions and follows up on what they leave unaddressed
+  iterative?: boolean;
+  // Cap on iterative passes, the first included
+  maxIterations?: number;
+}
+
+// Settings left out default to those of the run being retried. Depth, sources and
+// iteration settings given here apply to every retried dimension
+export interface RetryFailedDimensionsRequest {
+  taskId: string;
+  // Dimension IDs to re-run; defaults to every dimension that did not complete
+  dimensionIds?: string[];
+  depth?: ResearchDepth;
+  includeSources?: boolean;
+  iterative?: boolean;
+  maxIterations?: number;
+  // Replaces the original run's overrides by dimension ID
+  dimensionSettings?: Record<string, DimensionResearchSettings>;
+  models?: ModelOverrides;
+  includeQualityReview?: boolean;
+  executionMode?: 'parallel' | 'sequential';
+  maxAgents?: number;
+  dimensionTimeoutMs?: number;
+  budget?: ResearchBudget;
+}
+
+export interface ResearchRunOptions {
+  onProgress?: ProgressListener;
+  // Cancels the run when aborted; work finished by then is kept
+  signal?: AbortSignal;
+}
+
+export interface ResearchStatus {
+  task: ResearchTask;
+  progress: {
+    total: number;
+    pending: number;
+    running: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+  };
+  subAgents: {
+    id: string;
+    dimensionId: string;
+    dimensionName: string;
+    status: FlexibleSubAgent['status'];
+    error?: SubAgentFailure;
+    timing?: SubAgentTiming;
+    // Partial results: available as soon as the dimension completes
+    results?: DimensionResults;
+  }[];
+}
+
+// Filters shared by the list tools. Dates are ISO 8601; text matches case-insensitively
+export interface ListResearchRequest {
+  text?: string;
+  domain?: ResearchDomain;
+  createdAfter?: string;
+  createdBefore?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ListResearchTasksRequest extends ListResearchRequest {
+  status?: ResearchTask['status'];
+}
+
+export interface ListConfigurationSessionsRequest extends ListResearchRequest {
+  status?: ConversationState['status'];
+}
+
+// Newest first; nextCursor is set while more items remain
+export interface ResearchPage<T> {
+  items: T[];
+  total: number;
+  nextCursor?: string;
 }
 
 // Legacy types for backward compatibility
@@ -161,8 +355,11 @@ export interface SubAgent {
   parentTaskId: string;
   area: string;
   objectives: string[];
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  // Areas whose findings this one builds on; in dependency mode it waits for them
+  dependsOn?: string[];
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   results?: SubAgentResults;
+  error?: SubAgentFailure;
 }
 
 export interface SubAgentResults {
@@ -226,13 +423,16 @@ export interface InitializeSubagentsRequest {
   subagents: {
     area: string;
     objectives: string[];
+    depends_on?: string[];
   }[];
 }
 
 export interface RunSubagentResearchRequest {
-  execution_mode: 'parallel' | 'sequential';
+  execution_mode: 'parallel' | 'sequential' | 'dependency';
   depth: 'basic' | 'comprehensive';
   include_sources: boolean;
+  // Concurrency limit for the parallel and dependency modes
+  max_agents?: number;
 }
 
 export interface SynthesizeFindingsRequest {
@@ -0,0 +1,127 @@
+// Runs worker on every item with at most `concurrency` in flight. The next item
+// starts as soon as any running one finishes, in the order given. Rate limits are
+// enforced per LLM call by the client, so workers need not pace themselves
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const runWorker = async (): Promise<void> => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(concurrency), items.length));
+  await Promise.all(Array.from({ length: workers }, runWorker));
+}
+
+// Like runWithConcurrency, but an item only starts once every item it depends on
+// has succeeded; worker resolves to whether the item succeeded. An item whose
+// dependency did not succeed is handed to onBlocked instead. Dependencies must not
+// form a cycle
+export async function runWithDependencies<T>(
+  items: T[],
+  concurrency: number,
+  dependenciesOf: (item: T) => T[],
+  worker: (item: T) => Promise<boolean>,
+  onBlocked: (item: T, dependency: T) => Promise<void>
+): Promise<void> {
+  const acquire = slots(concurrency);
+  const outcomes: Map<T, Promise<boolean>> = new Map();
+
+  const run = (item: T): Promise<boolean> => {
+    let outcome = outcomes.get(item);
+    if (!outcome) {
+      outcome = (async () => {
+        for (const dependency of dependenciesOf(item)) {
+          if (!(await run(dependency))) {
+            await onBlocked(item, dependency);
+            return false;
+          }
+        }
+        const release = await acquire();
+        try {
+          return await worker(item);
+        } finally {
+          release();
+        }
+      })();
+      outcomes.set(item, outcome);
+    }
+    return outcome;
+  };
+
+  await Promise.all(items.map(run));
+}
+
+// Hands out up to `concurrency` slots, first come first served
+function slots(concurrency: number): () => Promise<() => void> {
+  let free = Math.max(1, Math.floor(concurrency));
+  const waiting: (() => void)[] = [];
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      free++;
+    }
+  };
+
+  return () => {
+    if (free > 0) {
+      free--;
+      return Promise.resolve(release);
+    }
+    return new Promise(resolve => waiting.push(() => resolve(release)));
+  };
+}
+
+// Aborts when the parent does, or once timeoutMs has passed. Call clear when the
+// work is done so the timer does not keep the process alive
+export function abortAfter(
+  parent: AbortSignal,
+  timeoutMs?: number
+): { signal: AbortSignal; timedOut: () => boolean; clear: () => void } {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort(parent.reason);
+  if (parent.aborted) {
+    onAbort();
+  }
+  parent.addEventListener('abort', onAbort, { once: true });
+
+  const timer = timeoutMs === undefined
+    ? undefined
+    : setTimeout(() => {
+        timedOut = true;
+        controller.abort(new Error(`Timed out after ${timeoutMs} ms`));
+      }, timeoutMs);
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timer);
+      parent.removeEventListener('abort', onAbort);
+    }
+  };
+}
+
+// Settles with the promise, or rejects with the abort reason as soon as the signal
+// aborts, for work that may not watch the signal itself. The work keeps running
+// after an abort, so its eventual rejection is swallowed rather than left unhandled
+export function untilAborted<T>(signal: AbortSignal, promise: Promise<T>): Promise<T> {
+  promise.catch(() => {});
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
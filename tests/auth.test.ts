@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { bearerAuthenticator, loadAuthTokens, ownerOf } from '../src/auth.js';
+import { runAsOwner } from '../src/ownership.js';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { ResearchTaskManager } from '../src/research-task-manager.js';
+import { MockLLMClient } from '../src/mock-llm-client.js';
+import { createScriptedClient, planResearch } from './fixtures.js';
+
+function writeTokensFile(tokens: unknown): string {
+  const file = join(mkdtempSync(join(tmpdir(), 'auth-tokens-')), 'tokens.json');
+  writeFileSync(file, JSON.stringify(tokens));
+  return file;
+}
+
+describe('auth tokens', () => {
+  it('maps tokens to the workspace, or the user without one', () => {
+    const tokens = loadAuthTokens({
+      MCP_AUTH_TOKENS_FILE: writeTokensFile({
+        'alice-token': { userId: 'alice', workspace: 'research-team' },
+        'bob-token': { userId: 'bob' }
+      })
+    })!;
+    const authenticate = bearerAuthenticator(tokens);
+
+    expect(authenticate('alice-token')?.clientId).toBe('alice');
+    expect(ownerOf(authenticate('alice-token'))).toBe('research-team');
+    expect(ownerOf(authenticate('bob-token'))).toBe('bob');
+    expect(authenticate('unknown')).toBeUndefined();
+    expect(loadAuthTokens({})).toBeUndefined();
+  });
+
+  it('rejects malformed entries without echoing tokens', () => {
+    const file = writeTokensFile({ 'secret-token': { workspace: '' } });
+
+    expect(() => loadAuthTokens({ MCP_AUTH_TOKENS_FILE: file })).toThrow(
+      'Invalid auth tokens file: entry 1: userId must be a non-empty string; entry 1: workspace must be a non-empty string'
+    );
+    expect(() => loadAuthTokens({ MCP_AUTH_TOKENS_FILE: writeTokensFile({}) })).toThrow('no tokens defined');
+  });
+});
+
+describe('per-owner isolation', () => {
+  it('hides sessions, plans and tasks from other owners', async () => {
+    const manager = new FlexibleResearchManager(createScriptedClient());
+    const plan = await runAsOwner('alice', () => planResearch(manager));
+    const { task } = await runAsOwner('alice', () =>
+      manager.runFlexibleResearch({
+        configId: plan.config.id,
+        executionMode: 'sequential',
+        includeQualityReview: true
+      })
+    );
+
+    expect(plan.config.ownerId).toBe('alice');
+    expect(task.ownerId).toBe('alice');
+
+    await runAsOwner('bob', async () => {
+      expect(manager.listSessions()).toEqual([]);
+      expect(manager.listConfigs()).toEqual([]);
+      expect(manager.listTasks()).toEqual([]);
+      expect(manager.getSynthesis(task.id)).toBeUndefined();
+      expect(() => manager.getResearchStatus(task.id)).toThrow(`Task ${task.id} not found`);
+      expect(() => manager.getTaskCost(task.id)).toThrow(`Task ${task.id} not found`);
+      await expect(
+        manager.continueConfiguration({ sessionId: plan.sessionId, userResponse: 'Hijack' })
+      ).rejects.toThrow();
+      await expect(
+        manager.startResearch({ configId: plan.config.id, executionMode: 'sequential', includeQualityReview: true })
+      ).rejects.toThrow(
+        `Config ${plan.config.id} not found`
+      );
+    });
+
+    // Without an owner, as over stdio, only unowned research is visible
+    expect(manager.listTasks()).toEqual([]);
+    expect(runAsOwner('alice', () => manager.getResearchResult(task.id)).task.id).toBe(task.id);
+  });
+
+  it('scopes legacy tasks to their owner', async () => {
+    const manager = new ResearchTaskManager(new MockLLMClient());
+    const task = await runAsOwner('alice', () =>
+      manager.createResearchTask({ title: 'Vector databases', goal: 'Pick one', strategy: 'Compare' })
+    );
+
+    await expect(
+      runAsOwner('bob', () => manager.defineEvaluationAreas(task.id, { areas: ['Cost'] }))
+    ).rejects.toThrow(`Task ${task.id} not found`);
+    await expect(
+      runAsOwner('alice', () => manager.defineEvaluationAreas(task.id, { areas: ['Cost'] }))
+    ).resolves.toMatchObject({ areas: ['Cost'] });
+  });
+});
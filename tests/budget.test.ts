@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { LLMClient, withMiddleware } from '../src/llm-client.js';
+import { MemoryStorage } from '../src/storage.js';
+import { FlexibleSubAgent, ResearchBudget } from '../src/types.js';
+import { createScriptedClient, planResearch } from './fixtures.js';
+
+// Calls whose prompt contains the text never answer, like a provider that ignores aborts
+function hangingOn(text: string, llm: LLMClient = createScriptedClient()): LLMClient {
+  return withMiddleware(llm, (request, next) =>
+    request.prompt.includes(text) ? new Promise<string>(() => {}) : next(request)
+  );
+}
+
+async function runWithBudget(budget: ResearchBudget, includeQualityReview = true) {
+  const llm = createScriptedClient();
+  const storage = new MemoryStorage();
+  const manager = new FlexibleResearchManager(llm, storage);
+  const session = await manager.configureResearch({
+    initialDescription: 'Market demand for AI meeting assistants'
+  });
+  await manager.continueConfiguration({ sessionId: session.sessionId, userResponse: 'Investors' });
+  const plan = await manager.generateResearchPlan({ sessionId: session.sessionId });
+
+  const result = await manager.runFlexibleResearch({
+    configId: plan.config.id,
+    executionMode: 'sequential',
+    includeQualityReview,
+    budget
+  });
+  const subAgents = (await storage.get<FlexibleSubAgent[]>('subagents', result.task.id))!;
+  return { llm, manager, subAgents, ...result };
+}
+
+describe('research budgets', () => {
+  it('stops cleanly and returns partial results when a cap is reached', async () => {
+    // Each dimension takes a research and a structuring call, so two of four fit
+    const { task, synthesis, cost, subAgents } = await runWithBudget({ maxCalls: 4 });
+
+    expect(task.status).toBe('completed');
+    expect(cost.total.calls).toBe(4);
+    expect(Object.keys(synthesis.dimensionFindings)).toEqual(['market_size', 'competitive_landscape']);
+    expect(subAgents.slice(2).map(agent => agent.error?.kind)).toEqual(['budget_exceeded', 'budget_exceeded']);
+    expect(synthesis.qualityReview).toBeUndefined();
+    expect(synthesis.crossDimensionInsights).toEqual([]);
+    expect(synthesis.budget).toMatchObject({
+      truncated: true,
+      reason: 'calls limit of 4 reached',
+      usage: { calls: 4 }
+    });
+  });
+
+  it('degrades as a cap is approached', async () => {
+    // Research and quality review take 10 of 12 calls, leaving synthesis but no summary
+    const { synthesis, llm } = await runWithBudget({ maxCalls: 12 });
+
+    expect(synthesis.recommendations.primary).toBe('Enter the market');
+    expect(synthesis.executiveSummary).toBeUndefined();
+    expect(llm.callsFor('summary')).toHaveLength(0);
+    expect(synthesis.budget).toMatchObject({ degraded: true, truncated: false });
+  });
+
+  it('switches remaining dimensions to basic depth', async () => {
+    // The fourth dimension starts after 6 of 7 calls
+    const { llm, synthesis } = await runWithBudget({ maxCalls: 7 }, false);
+
+    const prompts = llm.callsFor('research').map(call => call.prompt);
+    expect(prompts).toHaveLength(4);
+    expect(prompts.slice(0, 3).every(prompt => !prompt.includes('covering the key points efficiently'))).toBe(true);
+    expect(prompts[3]).toContain('covering the key points efficiently');
+    expect(synthesis.budget?.degraded).toBe(true);
+  });
+
+  it('aborts calls in flight once the duration cap expires', async () => {
+    const manager = new FlexibleResearchManager(hangingOn('Competitive Landscape'));
+    const plan = await planResearch(manager);
+
+    const { task, synthesis } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'sequential',
+      includeQualityReview: true,
+      budget: { maxDurationMs: 100 }
+    });
+
+    expect(task.status).toBe('completed');
+    expect(Object.keys(synthesis.dimensionFindings)).toEqual(['market_size']);
+    expect(manager.getResearchStatus(task.id).subAgents.slice(1).map(agent => agent.error?.kind)).toEqual([
+      'budget_exceeded',
+      'budget_exceeded',
+      'budget_exceeded'
+    ]);
+    expect(synthesis.cancelled).toBeUndefined();
+    expect(synthesis.budget).toMatchObject({ truncated: true, reason: 'duration limit of 100 reached' });
+  });
+
+  it('keeps the answered sub-questions of iterative research that runs out of time', async () => {
+    const scripted = createScriptedClient([
+      {
+        role: 'structuring',
+        pattern: 'Break down research on',
+        response: {
+          subQuestions: [
+            { question: 'How large is the market?', targets: [] },
+            { question: 'How fast is it growing?', targets: [] }
+          ]
+        }
+      }
+    ]);
+    const manager = new FlexibleResearchManager(hangingOn('How fast is it growing?', scripted));
+    const plan = await planResearch(manager);
+
+    const { task, synthesis } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'sequential',
+      includeQualityReview: false,
+      budget: { maxDurationMs: 100 },
+      dimensionSettings: { market_size: { iterative: true } }
+    });
+
+    const results = synthesis.dimensionFindings.market_size;
+    expect(manager.getResearchStatus(task.id).subAgents[0].status).toBe('completed');
+    expect(results.truncated).toBe(true);
+    expect(results.subQuestions?.map(question => question.question)).toEqual(['How large is the market?']);
+    expect(results.findings.raw).toContain('Q: How large is the market?');
+    expect(results.metadata).toMatchObject({ researchMode: 'iterative', researchPasses: 1 });
+    expect(synthesis.budget?.truncated).toBe(true);
+  });
+
+  it('rejects invalid budgets', async () => {
+    await expect(runWithBudget({ maxCalls: 0 })).rejects.toThrow('Invalid budget: maxCalls must be a positive number');
+  });
+});
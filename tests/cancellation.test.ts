@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import Anthropic from '@anthropic-ai/sdk';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { MockLLMClient } from '../src/mock-llm-client.js';
+import { classifyLLMError } from '../src/retry.js';
+import { createScriptedClient, planResearch } from './fixtures.js';
+
+describe('cancellation', () => {
+  it('stops a background run and keeps the finished dimensions', async () => {
+    let taskId = '';
+    let manager: FlexibleResearchManager;
+    const llm: MockLLMClient = createScriptedClient([
+      {
+        role: 'research',
+        pattern: 'Competitive Landscape',
+        response: () => {
+          manager.cancelResearch(taskId);
+          return 'Findings for the competitive landscape';
+        }
+      }
+    ]);
+    manager = new FlexibleResearchManager(llm);
+    const plan = await planResearch(manager);
+
+    const task = await manager.startResearch({
+      configId: plan.config.id,
+      executionMode: 'sequential',
+      includeQualityReview: true
+    });
+    taskId = task.id;
+    const { synthesis } = await manager.waitForResearch(task.id);
+
+    const status = manager.getResearchStatus(task.id);
+    expect(status.task.status).toBe('cancelled');
+    expect(status.subAgents.map(agent => agent.status)).toEqual([
+      'completed',
+      'cancelled',
+      'cancelled',
+      'cancelled'
+    ]);
+    expect(status.progress.cancelled).toBe(3);
+
+    expect(synthesis.cancelled).toBe(true);
+    expect(Object.keys(synthesis.dimensionFindings)).toEqual(['market_size']);
+    expect(llm.callsFor('research')).toHaveLength(2);
+    expect(llm.callsFor('quality_review')).toHaveLength(0);
+    expect(llm.callsFor('synthesis')).toHaveLength(0);
+    expect(manager.getResearchResult(task.id).task.status).toBe('cancelled');
+    expect(() => manager.cancelResearch(task.id)).toThrow('is not running');
+  });
+
+  it('honors an already aborted caller signal', async () => {
+    const llm = createScriptedClient();
+    const manager = new FlexibleResearchManager(llm);
+    const plan = await planResearch(manager);
+
+    const controller = new AbortController();
+    controller.abort();
+    const { task, synthesis } = await manager.runFlexibleResearch(
+      { configId: plan.config.id, executionMode: 'parallel', includeQualityReview: true },
+      { signal: controller.signal }
+    );
+
+    expect(task.status).toBe('cancelled');
+    expect(synthesis.dimensionFindings).toEqual({});
+    expect(llm.callsFor('research')).toHaveLength(0);
+  });
+
+  it('does not retry aborted provider calls', () => {
+    expect(classifyLLMError(new Anthropic.APIUserAbortError())).toMatchObject({
+      kind: 'cancelled',
+      retryable: false
+    });
+  });
+});
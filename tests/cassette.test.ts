@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { withMiddleware } from '../src/llm-client.js';
+import { MemoryStorage } from '../src/storage.js';
+import { runAsOwner } from '../src/ownership.js';
+import { MockRule } from '../src/mock-llm-client.js';
+import { LLMCallError } from '../src/retry.js';
+import { CassetteRecorder, ReplayLLMClient, replayResearch } from '../src/cassette.js';
+import { createScriptedClient } from './fixtures.js';
+
+// Plans, sessions and tasks belong to ownerId when one is given
+function recordResearchRun(ownerId?: string, overrides: MockRule[] = []) {
+  return runAsOwner(ownerId, async () => {
+    const storage = new MemoryStorage();
+    const recorder = new CassetteRecorder(storage);
+    const scripted = createScriptedClient(overrides);
+    const manager = new FlexibleResearchManager(
+      withMiddleware(scripted, recorder.middleware()),
+      storage
+    );
+
+    const session = await manager.configureResearch({
+      initialDescription: 'Market demand for AI meeting assistants'
+    });
+    await manager.continueConfiguration({ sessionId: session.sessionId, userResponse: 'Investors' });
+    const plan = await manager.generateResearchPlan({ sessionId: session.sessionId });
+    const result = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'parallel',
+      includeQualityReview: true
+    });
+
+    return { recorder, scripted, manager, session, result };
+  });
+}
+
+describe('cassettes', () => {
+  it('records task and session calls separately', async () => {
+    const { recorder, scripted, session, result } = await recordResearchRun();
+
+    const sessionCassette = await recorder.getCassette('session', session.sessionId);
+    const taskCassette = await recorder.getCassette('task', result.task.id);
+
+    expect(sessionCassette?.entries.map(e => e.request.role)).toEqual(['wizard', 'wizard', 'structuring']);
+    expect(taskCassette?.entries).toHaveLength(scripted.calls.length - 3);
+    expect(taskCassette?.metadata?.request.configId).toBe(result.synthesis.config.id);
+  });
+
+  it('replays a research task without the original provider', async () => {
+    const { recorder, result } = await recordResearchRun();
+    const cassette = (await recorder.getCassette('task', result.task.id))!;
+
+    const replayed = await replayResearch(cassette);
+
+    expect(replayed.synthesis.crossDimensionInsights).toEqual(result.synthesis.crossDimensionInsights);
+    expect(replayed.synthesis.recommendations).toEqual(result.synthesis.recommendations);
+    expect(replayed.synthesis.qualityReview).toEqual(result.synthesis.qualityReview);
+    expect(replayed.synthesis.executiveSummary).toBe(result.synthesis.executiveSummary);
+  });
+
+  it('replays a task recorded for an owner', async () => {
+    const { recorder, result } = await recordResearchRun('alice');
+    const cassette = (await recorder.getCassette('task', result.task.id))!;
+    expect(cassette.metadata?.config.ownerId).toBe('alice');
+
+    const replayed = await replayResearch(cassette);
+
+    expect(replayed.task.ownerId).toBe('alice');
+    expect(replayed.synthesis.recommendations).toEqual(result.synthesis.recommendations);
+  });
+
+  it('replays retries of a task after its first run', async () => {
+    const { recorder, manager, result } = await recordResearchRun(undefined, [
+      {
+        role: 'research',
+        pattern: 'Competitive Landscape',
+        times: 1,
+        response: () => {
+          throw new LLMCallError('LLM call failed (overloaded, gave up after 5 attempts)', 'overloaded', 5, 529);
+        }
+      }
+    ]);
+    expect(result.synthesis.dimensionFindings.competitive_landscape).toBeUndefined();
+    const retried = await manager.retryFailedDimensions({ taskId: result.task.id, depth: 'basic' });
+
+    const cassette = (await recorder.getCassette('task', result.task.id))!;
+    expect(cassette.runs?.map(run => run.metadata.dimensionIds)).toEqual([
+      result.synthesis.config.dimensions.map(dimension => dimension.id),
+      ['competitive_landscape']
+    ]);
+
+    const replayed = await replayResearch(cassette);
+
+    const { findings, metadata } = retried.synthesis.dimensionFindings.competitive_landscape;
+    expect(replayed.synthesis.dimensionFindings.competitive_landscape).toMatchObject({
+      findings,
+      metadata: { researchDepth: metadata?.researchDepth }
+    });
+    expect(Object.keys(replayed.synthesis.dimensionFindings)).toHaveLength(result.synthesis.config.dimensions.length);
+    expect(replayed.synthesis.recommendations).toEqual(retried.synthesis.recommendations);
+    expect(replayed.synthesis.executiveSummary).toBe(retried.synthesis.executiveSummary);
+  });
+
+  it('rejects requests that were never recorded', async () => {
+    const { recorder, result } = await recordResearchRun();
+    const replay = new ReplayLLMClient((await recorder.getCassette('task', result.task.id))!);
+
+    await expect(replay.complete({
+      role: 'research',
+      model: 'any',
+      maxTokens: 10,
+      temperature: 0,
+      prompt: 'A prompt nobody sent'
+    })).rejects.toThrow('Cassette has no recorded response');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { MemoryStorage } from '../src/storage.js';
+import { DEFAULT_PRICE_TABLE } from '../src/cost-tracker.js';
+import { MockLLMClient } from '../src/mock-llm-client.js';
+import { createScriptedClient } from './fixtures.js';
+
+async function runResearch(manager: FlexibleResearchManager) {
+  const session = await manager.configureResearch({
+    initialDescription: 'Market demand for AI meeting assistants'
+  });
+  await manager.continueConfiguration({ sessionId: session.sessionId, userResponse: 'Investors' });
+  const plan = await manager.generateResearchPlan({ sessionId: session.sessionId });
+  return manager.runFlexibleResearch({
+    configId: plan.config.id,
+    executionMode: 'parallel',
+    includeQualityReview: true
+  });
+}
+
+describe('cost accounting', () => {
+  it('aggregates usage per phase and sub-agent', async () => {
+    const llm: MockLLMClient = createScriptedClient();
+    const manager = new FlexibleResearchManager(llm);
+
+    const { task, cost } = await runResearch(manager);
+
+    expect(cost.taskId).toBe(task.id);
+    expect(cost.byPhase.research?.calls).toBe(4);
+    expect(cost.byPhase.quality_review?.calls).toBe(1);
+    expect(cost.byPhase.synthesis?.calls).toBe(1);
+    expect(cost.byPhase.summary?.calls).toBe(1);
+    // Wizard calls happen before the task exists and are not charged to it
+    expect(cost.byPhase.wizard).toBeUndefined();
+
+    // Each sub-agent makes one research and one structuring call
+    expect(Object.keys(cost.bySubAgent)).toHaveLength(4);
+    expect(Object.values(cost.bySubAgent).every(totals => totals.calls === 2)).toBe(true);
+
+    const phaseCalls = Object.values(cost.byPhase).reduce((sum, totals) => sum + totals!.calls, 0);
+    expect(phaseCalls).toBe(cost.total.calls);
+    expect(cost.calls).toHaveLength(cost.total.calls);
+    expect(cost.total.costUsd).toBeGreaterThan(0);
+    expect(cost.unpricedModels).toEqual([]);
+  });
+
+  it('prices calls from the configured table and flags unknown models', async () => {
+    const prices = {
+      ...DEFAULT_PRICE_TABLE,
+      'claude-3-opus-20240229': { inputPerMillion: 0, outputPerMillion: 0 }
+    };
+    delete (prices as Record<string, unknown>)['claude-3-sonnet-20240229'];
+
+    const manager = new FlexibleResearchManager(createScriptedClient(), new MemoryStorage(), prices);
+    const { cost } = await runResearch(manager);
+
+    expect(cost.total.costUsd).toBe(0);
+    expect(cost.unpricedModels).toEqual(['claude-3-sonnet-20240229']);
+  });
+
+  it('keeps task costs across restarts', async () => {
+    const storage = new MemoryStorage();
+    const { task, cost } = await runResearch(new FlexibleResearchManager(createScriptedClient(), storage));
+
+    const restarted = new FlexibleResearchManager(createScriptedClient(), storage);
+    await restarted.loadFromStorage();
+
+    expect(restarted.getTaskCost(task.id).total).toEqual(cost.total);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { ResearchTaskManager } from '../src/research-task-manager.js';
+import { withMiddleware } from '../src/llm-client.js';
+import { RunSubagentResearchRequest } from '../src/types.js';
+import { createScriptedClient } from './fixtures.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Records when research on each area starts and ends. Areas take as long as
+// their delay, and those listed as failing throw once their time is up
+function recordingClient(delays: Record<string, number>, failing: string[] = []) {
+  const events: string[] = [];
+  const scripted = createScriptedClient();
+  const llm = withMiddleware(scripted, async (request, next) => {
+    const area = request.prompt.match(/research on "([^"]+)"/)?.[1];
+    if (request.role !== 'legacy_research' || !area) {
+      return next(request);
+    }
+    events.push(`start ${area}`);
+    await sleep(delays[area]);
+    events.push(`end ${area}`);
+    if (failing.includes(area)) {
+      throw new Error(`${area} unavailable`);
+    }
+    return next(request);
+  });
+  return { llm, scripted, events };
+}
+
+async function runAreas(
+  manager: ResearchTaskManager,
+  subagents: { area: string; objectives: string[]; depends_on?: string[] }[],
+  request: Partial<RunSubagentResearchRequest>
+) {
+  const task = await manager.createResearchTask({
+    title: 'LLM evaluation tools',
+    goal: 'Find the best opportunity',
+    strategy: 'Compare areas'
+  });
+  await manager.initializeSubagents({ parent_task_id: task.id, subagents });
+  return manager.runSubagentResearch(task.id, {
+    execution_mode: 'parallel',
+    depth: 'basic',
+    include_sources: false,
+    ...request
+  });
+}
+
+const areas = (...names: string[]) => names.map(area => ({ area, objectives: ['Assess demand'] }));
+
+describe('legacy execution modes', () => {
+  it('runs one subagent at a time in sequential mode', async () => {
+    const { llm, events } = recordingClient({ 'Prompt tooling': 30, 'Eval dashboards': 5, 'Tracing': 5 });
+    const manager = new ResearchTaskManager(llm);
+
+    const agents = await runAreas(manager, areas('Prompt tooling', 'Eval dashboards', 'Tracing'), {
+      execution_mode: 'sequential'
+    });
+
+    expect(events).toEqual([
+      'start Prompt tooling',
+      'end Prompt tooling',
+      'start Eval dashboards',
+      'end Eval dashboards',
+      'start Tracing',
+      'end Tracing'
+    ]);
+    expect(agents.every(agent => agent.status === 'completed')).toBe(true);
+  });
+
+  it('runs up to maxAgents at once in parallel mode, starting the next as soon as one ends', async () => {
+    const { llm, events } = recordingClient({ 'Prompt tooling': 60, 'Eval dashboards': 5, 'Tracing': 5 });
+    const manager = new ResearchTaskManager(llm);
+
+    await runAreas(manager, areas('Prompt tooling', 'Eval dashboards', 'Tracing'), {
+      execution_mode: 'parallel',
+      max_agents: 2
+    });
+
+    expect(events).toEqual([
+      'start Prompt tooling',
+      'start Eval dashboards',
+      'end Eval dashboards',
+      'start Tracing',
+      'end Tracing',
+      'end Prompt tooling'
+    ]);
+  });
+
+  it('waits for dependencies and passes their findings on in dependency mode', async () => {
+    const { llm, scripted, events } = recordingClient({ 'Market map': 20, 'Pricing': 5, 'Tracing': 5 });
+    const manager = new ResearchTaskManager(llm);
+
+    const agents = await runAreas(manager, [
+      { area: 'Pricing', objectives: ['Compare pricing models'], depends_on: ['Market map'] },
+      ...areas('Market map', 'Tracing')
+    ], { execution_mode: 'dependency' });
+
+    expect(events).toEqual([
+      'start Market map',
+      'start Tracing',
+      'end Tracing',
+      'end Market map',
+      'start Pricing',
+      'end Pricing'
+    ]);
+    expect(agents.every(agent => agent.status === 'completed')).toBe(true);
+
+    const pricingPrompt = scripted.callsFor('legacy_research').find(call => call.prompt.includes('research on "Pricing"'))!.prompt;
+    expect(pricingPrompt).toContain('Build on what earlier research found');
+    expect(pricingPrompt).toContain('- Market map:');
+  });
+
+  it('skips subagents whose dependency failed', async () => {
+    const { llm, events } = recordingClient({ 'Market map': 5, 'Pricing': 5 }, ['Market map']);
+    const manager = new ResearchTaskManager(llm);
+
+    const agents = await runAreas(manager, [
+      { area: 'Pricing', objectives: ['Compare pricing models'], depends_on: ['Market map'] },
+      ...areas('Market map')
+    ], { execution_mode: 'dependency' });
+
+    expect(events).toEqual(['start Market map', 'end Market map']);
+    expect(agents[0]).toMatchObject({
+      status: 'failed',
+      error: { kind: 'dependency_failed', message: 'Depends on Market map, which did not complete' }
+    });
+    expect(agents[1].status).toBe('failed');
+  });
+
+  it('rejects duplicate areas and unknown and circular dependencies', async () => {
+    const manager = new ResearchTaskManager(createScriptedClient());
+    const task = await manager.createResearchTask({ title: 'Tools', goal: 'Compare', strategy: 'Compare' });
+
+    await expect(manager.initializeSubagents({
+      parent_task_id: task.id,
+      subagents: [{ area: 'Pricing', objectives: [], depends_on: ['Market map'] }]
+    })).rejects.toThrow('Pricing depends on unknown area Market map');
+
+    await expect(manager.initializeSubagents({
+      parent_task_id: task.id,
+      subagents: [
+        { area: 'Pricing', objectives: [] },
+        { area: 'Market map', objectives: [], depends_on: ['Pricing'] },
+        { area: 'Pricing', objectives: [] }
+      ]
+    })).rejects.toMatchObject({
+      code: 'invalid_argument',
+      message: 'Invalid subagent dependencies: area Pricing is listed more than once'
+    });
+
+    await expect(manager.initializeSubagents({
+      parent_task_id: task.id,
+      subagents: [
+        { area: 'Pricing', objectives: [], depends_on: ['Market map'] },
+        { area: 'Market map', objectives: [], depends_on: ['Pricing'] }
+      ]
+    })).rejects.toMatchObject({
+      code: 'invalid_argument',
+      message: 'Invalid subagent dependencies: dependencies form a cycle: Pricing -> Market map -> Pricing'
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { MockLLMClient, MockRule } from '../src/mock-llm-client.js';
+
+// Canned responses covering every prompt the flexible and legacy flows send.
+// Overrides are matched first, so a test can replace individual answers
+export function createScriptedClient(overrides: MockRule[] = []): MockLLMClient {
+  return new MockLLMClient([
+    ...overrides,
+    {
+      role: 'wizard',
+      pattern: 'Generate 2-3 clarifying questions',
+      response: 'Who is the audience, and which regions matter most?'
+    },
+    {
+      role: 'wizard',
+      pattern: 'Conversation history:',
+      response: 'Great, that gives me everything I need. Shall I generate the plan?'
+    },
+    {
+      role: 'structuring',
+      pattern: 'generate 3-5 research dimensions',
+      response: {
+        dimensions: [
+          {
+            name: 'Adoption',
+            description: 'How widely the approach is used',
+            evaluationCriteria: ['Usage growth'],
+            dataPoints: ['Active users']
+          }
+        ]
+      }
+    },
+    {
+      role: 'structuring',
+      pattern: 'Extract structured configuration',
+      response: {
+        domain: 'market_research',
+        audience: ['investors'],
+        perspective: 'business',
+        isComplete: true
+      }
+    },
+    {
+      role: ['research', 'legacy_research'],
+      response: request => `Findings for ${request.prompt.split('\n')[0]}`
+    },
+    {
+      role: 'structuring',
+      pattern: 'Extract and structure the research findings',
+      response: {
+        findings: { summary: 'Demand is growing' },
+        evidence: ['Survey of 200 buyers'],
+        confidence: 0.82,
+        sources: ['Industry report 2024']
+      }
+    },
+    {
+      role: 'quality_review',
+      response: 'The research is thorough with minor gaps.'
+    },
+    {
+      role: 'structuring',
+      pattern: 'Extract structured quality review',
+      response: {
+        overallScore: 0.9,
+        dimensionScores: {},
+        issues: [],
+        recommendations: ['Add regional data'],
+        confidence: 0.85
+      }
+    },
+    {
+      role: 'synthesis',
+      pattern: 'Synthesize research findings',
+      response: 'Across dimensions, the market is attractive.'
+    },
+    {
+      role: 'structuring',
+      pattern: 'Extract structured synthesis',
+      response: {
+        crossDimensionInsights: ['Demand outpaces supply'],
+        recommendations: {
+          primary: 'Enter the market',
+          supporting: ['Target investors first'],
+          confidence: 0.8
+        }
+      }
+    },
+    {
+      role: 'summary',
+      response: 'Executive summary: enter the market.'
+    },
+    {
+      role: 'legacy_synthesis',
+      pattern: 'Synthesize the following research findings',
+      response: [
+        'Prompt tooling scores 8/10 overall.',
+        'I recommend: Prompt tooling because demand is strong.',
+        'Confidence: 0.8'
+      ].join('\n')
+    }
+  ]);
+}
+
+// Takes a configuration session through to a market research plan, whose template
+// dimensions are market_size, competitive_landscape, customer_analysis and market_trends
+export async function planResearch(manager: FlexibleResearchManager) {
+  const session = await manager.configureResearch({
+    initialDescription: 'Market demand for AI meeting assistants'
+  });
+  await manager.continueConfiguration({ sessionId: session.sessionId, userResponse: 'Investors' });
+  const plan = await manager.generateResearchPlan({ sessionId: session.sessionId });
+  return { ...plan, sessionId: session.sessionId };
+}
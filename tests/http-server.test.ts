@@ -0,0 +1,142 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { McpHttpServer, MAX_HTTP_BODY_BYTES, MCP_HTTP_PATH, parseServerOptions } from '../src/http-server.js';
+
+// Stands in for the research server: one tool reading state shared by every session
+function createCounterServer(state: { calls: number }): Server {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'count', inputSchema: { type: 'object' } }]
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async () => ({
+    content: [{ type: 'text', text: String(++state.calls) }]
+  }));
+  return server;
+}
+
+describe('HTTP transport', () => {
+  let httpServer: McpHttpServer | undefined;
+
+  afterEach(async () => {
+    await httpServer?.close();
+    httpServer = undefined;
+  });
+
+  it('gives each client its own session over shared state', async () => {
+    const state = { calls: 0 };
+    httpServer = new McpHttpServer(() => createCounterServer(state));
+    const { port } = await httpServer.listen(0, '127.0.0.1');
+    const url = new URL(`http://127.0.0.1:${port}${MCP_HTTP_PATH}`);
+
+    const first = new StreamableHTTPClientTransport(url);
+    const second = new StreamableHTTPClientTransport(url);
+    const clients = [new Client({ name: 'a', version: '1' }), new Client({ name: 'b', version: '1' })];
+    await clients[0].connect(first);
+    await clients[1].connect(second);
+
+    expect(httpServer.sessionCount).toBe(2);
+    expect(first.sessionId).not.toBe(second.sessionId);
+
+    await clients[0].callTool({ name: 'count' });
+    const result = await clients[1].callTool({ name: 'count' });
+    expect(result.content).toEqual([{ type: 'text', text: '2' }]);
+
+    await first.terminateSession();
+    expect(httpServer.sessionCount).toBe(1);
+
+    await clients[0].close();
+    await clients[1].close();
+  });
+
+  it('rejects requests without a session and unknown sessions', async () => {
+    httpServer = new McpHttpServer(() => createCounterServer({ calls: 0 }));
+    const { port } = await httpServer.listen(0, '127.0.0.1');
+    const url = `http://127.0.0.1:${port}${MCP_HTTP_PATH}`;
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+    expect((await fetch(url, { method: 'POST', headers, body })).status).toBe(400);
+    expect(
+      (await fetch(url, { method: 'POST', headers: { ...headers, 'mcp-session-id': 'missing' }, body })).status
+    ).toBe(404);
+    expect((await fetch(`http://127.0.0.1:${port}/other`, { method: 'POST', headers, body })).status).toBe(404);
+  });
+
+  it('rejects request bodies over the size limit', async () => {
+    httpServer = new McpHttpServer(() => createCounterServer({ calls: 0 }));
+    const { port } = await httpServer.listen(0, '127.0.0.1');
+    const url = `http://127.0.0.1:${port}${MCP_HTTP_PATH}`;
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+    const padding = 'x'.repeat(MAX_HTTP_BODY_BYTES);
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: { padding } });
+
+    const response = await fetch(url, { method: 'POST', headers, body });
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.message).toContain(`${MAX_HTTP_BODY_BYTES} bytes`);
+  });
+});
+
+describe('HTTP authentication', () => {
+  let httpServer: McpHttpServer | undefined;
+
+  afterEach(async () => {
+    await httpServer?.close();
+    httpServer = undefined;
+  });
+
+  it('requires a bearer token and binds sessions to the client that opened them', async () => {
+    const owners: (string | undefined)[] = [];
+    httpServer = new McpHttpServer(
+      auth => {
+        owners.push(auth?.clientId);
+        return createCounterServer({ calls: 0 });
+      },
+      {
+        authenticate: token =>
+          ['alice', 'bob'].includes(token) ? { token, clientId: token, scopes: [] } : undefined
+      }
+    );
+    const { port } = await httpServer.listen(0, '127.0.0.1');
+    const url = new URL(`http://127.0.0.1:${port}${MCP_HTTP_PATH}`);
+    const withToken = (token: string) =>
+      new StreamableHTTPClientTransport(url, { requestInit: { headers: { Authorization: `Bearer ${token}` } } });
+
+    const anonymous = await fetch(url, { method: 'POST', body: '{}' });
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('www-authenticate')).toContain('Bearer');
+    await expect(new Client({ name: 'x', version: '1' }).connect(withToken('mallory'))).rejects.toThrow();
+
+    const alice = withToken('alice');
+    const client = new Client({ name: 'a', version: '1' });
+    await client.connect(alice);
+    expect(owners).toEqual(['alice']);
+
+    const hijack = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: 'Bearer bob',
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'mcp-session-id': alice.sessionId!
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+    });
+    expect(hijack.status).toBe(404);
+
+    await client.close();
+  });
+});
+
+describe('parseServerOptions', () => {
+  it('reads flags before environment variables', () => {
+    expect(parseServerOptions([], {})).toEqual({ transport: 'stdio', host: '127.0.0.1', port: 3000 });
+    expect(
+      parseServerOptions(['--transport', 'http', '--port=8080'], { MCP_HTTP_HOST: '0.0.0.0', MCP_HTTP_PORT: '9000' })
+    ).toEqual({ transport: 'http', host: '0.0.0.0', port: 8080 });
+    expect(() => parseServerOptions(['--transport', 'websocket'], {})).toThrow('Unknown transport: websocket');
+    expect(() => parseServerOptions(['--port', 'abc'], {})).toThrow('Invalid port: abc');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { LLMRequest } from '../src/llm-client.js';
+import { MockLLMClient } from '../src/mock-llm-client.js';
+import { createScriptedClient, planResearch } from './fixtures.js';
+
+// The "- " items listed after a heading in a prompt
+function listedAfter(request: LLMRequest, heading: string): string[] {
+  const lines = request.prompt.split(heading)[1].split('\n').slice(1);
+  return lines.slice(0, lines.findIndex(line => !line.startsWith('- '))).map(line => line.slice(2));
+}
+
+// The first decomposition asks an overview question covering every item and one
+// about the first item; follow-ups ask one question about whatever is left. The
+// coverage check reports the last item unaddressed until `coveredAfter` checks
+function iterativeClient(coveredAfter: number): MockLLMClient {
+  let checks = 0;
+  return createScriptedClient([
+    {
+      role: 'structuring',
+      pattern: 'Break down research on',
+      response: request => {
+        const targets = listedAfter(request, 'data points:');
+        return request.prompt.includes('Earlier answers left these unaddressed')
+          ? { subQuestions: [{ question: `What about ${targets.join(', ')}?`, targets }] }
+          : {
+              subQuestions: [
+                { question: 'What does the market look like overall?', targets },
+                { question: `What about ${targets[0]}?`, targets: [targets[0]] }
+              ]
+            };
+      }
+    },
+    {
+      role: 'structuring',
+      pattern: 'Check which evaluation criteria',
+      response: request => {
+        const items = listedAfter(request, 'Criteria and data points:');
+        checks++;
+        return { unaddressed: checks < coveredAfter ? [items[items.length - 1]] : [] };
+      }
+    }
+  ]);
+}
+
+describe('iterative research', () => {
+  it('follows up on unaddressed data points and records the sub-question tree', async () => {
+    const llm = iterativeClient(2);
+    const manager = new FlexibleResearchManager(llm);
+    const plan = await planResearch(manager);
+    const dimension = plan.config.dimensions.find(d => d.id === 'market_size')!;
+    const items = [...dimension.evaluationCriteria, ...dimension.dataPoints];
+    const last = items[items.length - 1];
+
+    const { synthesis } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'sequential',
+      includeQualityReview: false,
+      dimensionSettings: { market_size: { iterative: true } }
+    });
+
+    const decompositions = llm.calls.filter(call => call.prompt.includes('Break down research on'));
+    expect(decompositions).toHaveLength(2);
+    expect(decompositions[1].prompt).toContain(`Earlier answers left these unaddressed. Cover these evaluation criteria and data points:\n- ${last}\n`);
+    expect(decompositions[1].prompt).toContain('- What does the market look like overall?');
+
+    const subQuestionCalls = llm.callsFor('research').filter(call => call.prompt.includes('Answer this sub-question'));
+    expect(subQuestionCalls.map(call => call.prompt.match(/Answer this sub-question: (.*)/)![1])).toEqual([
+      'What does the market look like overall?',
+      `What about ${items[0]}?`,
+      `What about ${last}?`
+    ]);
+
+    const results = synthesis.dimensionFindings.market_size;
+    expect(results.subQuestions).toMatchObject([
+      {
+        id: '1.1',
+        iteration: 1,
+        targets: items,
+        children: [{ id: '2.1', iteration: 2, targets: [last], children: [] }]
+      },
+      { id: '1.2', iteration: 1, targets: [items[0]], children: [] }
+    ]);
+    expect(results.subQuestions![0].answer).toContain('Findings for Research');
+    expect(results.metadata).toMatchObject({ researchMode: 'iterative', researchPasses: 2, unaddressed: [] });
+
+    // Other dimensions are researched in one pass
+    expect(synthesis.dimensionFindings.market_trends.subQuestions).toBeUndefined();
+  });
+
+  it('stops at the iteration cap and records what is still unaddressed', async () => {
+    const llm = iterativeClient(Infinity);
+    const manager = new FlexibleResearchManager(llm);
+    const plan = await planResearch(manager);
+    const dimension = plan.config.dimensions.find(d => d.id === 'market_size')!;
+
+    const { synthesis } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'sequential',
+      includeQualityReview: false,
+      iterative: true,
+      maxIterations: 2,
+      dimensionSettings: { market_trends: { iterative: false } }
+    });
+
+    const results = synthesis.dimensionFindings.market_size;
+    expect(results.metadata).toMatchObject({
+      researchPasses: 2,
+      unaddressed: [dimension.dataPoints[dimension.dataPoints.length - 1]]
+    });
+    expect(synthesis.dimensionFindings.competitive_landscape.subQuestions).toHaveLength(2);
+    expect(synthesis.dimensionFindings.market_trends.subQuestions).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { ResearchTaskManager } from '../src/research-task-manager.js';
+import { withMiddleware } from '../src/llm-client.js';
+import {
+  DEFAULT_MODEL_ROUTING,
+  loadModelRouting,
+  modelRoutingMiddleware
+} from '../src/model-routing.js';
+import { createScriptedClient } from './fixtures.js';
+
+describe('model routing', () => {
+  it('applies environment overrides on top of the defaults', () => {
+    const routing = loadModelRouting({
+      LLM_RESEARCH_MODEL: 'claude-research',
+      LLM_SUMMARY_MAX_TOKENS: '500'
+    });
+
+    expect(routing.research).toEqual({ ...DEFAULT_MODEL_ROUTING.research, model: 'claude-research' });
+    expect(routing.summary.maxTokens).toBe(500);
+    expect(routing.wizard).toEqual(DEFAULT_MODEL_ROUTING.wizard);
+  });
+
+  it('rejects invalid settings at startup', () => {
+    expect(() => loadModelRouting({ LLM_WIZARD_TEMPERATURE: '2' }))
+      .toThrow('wizard.temperature must be between 0 and 1');
+    expect(() => loadModelRouting({ LLM_STRUCTURING_MAX_TOKENS: 'lots' }))
+      .toThrow('structuring.maxTokens must be a positive integer');
+  });
+
+  it('routes each role and honors per-run overrides', async () => {
+    const scripted = createScriptedClient();
+    const manager = new FlexibleResearchManager(
+      withMiddleware(scripted, modelRoutingMiddleware(DEFAULT_MODEL_ROUTING))
+    );
+
+    const session = await manager.configureResearch({
+      initialDescription: 'Market demand for AI meeting assistants'
+    });
+    await manager.continueConfiguration({ sessionId: session.sessionId, userResponse: 'Investors' });
+    const plan = await manager.generateResearchPlan({ sessionId: session.sessionId });
+    await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'sequential',
+      includeQualityReview: true,
+      models: { research: { model: 'claude-override', temperature: 0.2 } }
+    });
+
+    expect(scripted.callsFor('wizard')[0].model).toBe(DEFAULT_MODEL_ROUTING.wizard.model);
+    expect(scripted.callsFor('research').every(call =>
+      call.model === 'claude-override' &&
+      call.temperature === 0.2 &&
+      call.maxTokens === DEFAULT_MODEL_ROUTING.research.maxTokens
+    )).toBe(true);
+    expect(scripted.callsFor('synthesis')[0].model).toBe(DEFAULT_MODEL_ROUTING.synthesis.model);
+
+    await expect(manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'sequential',
+      includeQualityReview: false,
+      models: { research: { maxTokens: -1 } }
+    })).rejects.toThrow('research.maxTokens must be a positive integer');
+  });
+
+  it('keeps the legacy flow on its own roles and models', async () => {
+    const scripted = createScriptedClient();
+    const manager = new ResearchTaskManager(
+      withMiddleware(scripted, modelRoutingMiddleware(loadModelRouting({ LLM_RESEARCH_MODEL: 'claude-research' })))
+    );
+    const task = await manager.createResearchTask({ title: 'Tools', goal: 'Compare', strategy: 'Compare' });
+    await manager.initializeSubagents({
+      parent_task_id: task.id,
+      subagents: [{ area: 'Prompt tooling', objectives: ['Assess demand'] }]
+    });
+    await manager.runSubagentResearch(task.id, { execution_mode: 'sequential', depth: 'basic', include_sources: false });
+    await manager.synthesizeFindings(task.id, { dimensions_to_compare: ['demand'], goal: 'pick an area' });
+
+    expect(scripted.callsFor('research')).toHaveLength(0);
+    expect(scripted.callsFor('legacy_research')[0]).toMatchObject({
+      model: 'claude-3-5-sonnet-20241022',
+      temperature: 0.7
+    });
+    expect(scripted.callsFor('legacy_synthesis')[0]).toMatchObject({
+      model: 'claude-3-5-sonnet-20241022',
+      temperature: 0.5
+    });
+  });
+});
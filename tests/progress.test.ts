@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { ResearchTaskManager } from '../src/research-task-manager.js';
+import { ProgressUpdate } from '../src/progress.js';
+import { createScriptedClient } from './fixtures.js';
+
+function expectMonotonic(updates: ProgressUpdate[]) {
+  updates.forEach((update, index) => {
+    if (index > 0) {
+      expect(update.progress).toBeGreaterThan(updates[index - 1].progress);
+    }
+  });
+  const last = updates[updates.length - 1];
+  expect(last.progress).toBe(last.total);
+}
+
+describe('progress reporting', () => {
+  it('reports each dimension and phase of a flexible run', async () => {
+    const manager = new FlexibleResearchManager(createScriptedClient());
+    const session = await manager.configureResearch({
+      initialDescription: 'Market demand for AI meeting assistants'
+    });
+    await manager.continueConfiguration({ sessionId: session.sessionId, userResponse: 'Investors' });
+    const plan = await manager.generateResearchPlan({ sessionId: session.sessionId });
+
+    const updates: ProgressUpdate[] = [];
+    await manager.runFlexibleResearch(
+      { configId: plan.config.id, executionMode: 'sequential', includeQualityReview: true },
+      { onProgress: update => updates.push(update) }
+    );
+
+    expectMonotonic(updates);
+    expect(updates.map(u => u.message)).toEqual([
+      'Researching Market Size & Growth',
+      'Finished researching Market Size & Growth',
+      'Researching Competitive Landscape',
+      'Finished researching Competitive Landscape',
+      'Researching Customer Analysis',
+      'Finished researching Customer Analysis',
+      'Researching Market Trends & Opportunities',
+      'Finished researching Market Trends & Opportunities',
+      'Starting quality review',
+      'Quality review finished',
+      'Synthesizing findings',
+      'Synthesis finished',
+      'Research completed'
+    ]);
+  });
+
+  it('reports failed sub-agents in the legacy flow', async () => {
+    const manager = new ResearchTaskManager(createScriptedClient([
+      {
+        role: 'legacy_research',
+        pattern: 'Eval dashboards',
+        response: () => {
+          throw new Error('provider unavailable');
+        }
+      }
+    ]));
+    const task = await manager.createResearchTask({
+      title: 'LLM evaluation tools',
+      goal: 'Find the best opportunity',
+      strategy: 'Compare areas'
+    });
+    await manager.initializeSubagents({
+      parent_task_id: task.id,
+      subagents: [
+        { area: 'Prompt tooling', objectives: ['Assess demand'] },
+        { area: 'Eval dashboards', objectives: ['Assess demand'] }
+      ]
+    });
+
+    const updates: ProgressUpdate[] = [];
+    await manager.runSubagentResearch(
+      task.id,
+      { execution_mode: 'parallel', depth: 'basic', include_sources: false },
+      { onProgress: update => updates.push(update) }
+    );
+
+    expectMonotonic(updates);
+    expect(updates.map(u => u.message)).toContain('Research on Eval dashboards failed: provider unavailable');
+    expect(updates.map(u => u.message)).toContain('Finished researching Prompt tooling');
+  });
+});
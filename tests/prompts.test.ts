@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { getResearchPrompt, listResearchPrompts, RESEARCH_WORKFLOW_PROMPT } from '../src/research-prompts.js';
+import { researchTemplates } from '../src/research-templates.js';
+
+describe('research prompts', () => {
+  it('lists one prompt per template plus the guided workflow', () => {
+    const names = listResearchPrompts().map(prompt => prompt.name);
+
+    expect(names).toEqual([...Object.keys(researchTemplates), RESEARCH_WORKFLOW_PROMPT]);
+    expect(listResearchPrompts()[0].arguments.map(arg => arg.name)).toEqual([
+      'topic',
+      'audience',
+      'constraints'
+    ]);
+  });
+
+  it('fills template prompts with the arguments and example questions', () => {
+    const prompt = getResearchPrompt('market_research', {
+      topic: 'AI meeting assistants',
+      audience: 'investors',
+      constraints: 'North America only'
+    });
+    const text = prompt.messages[0].content.text;
+
+    expect(prompt.description).toBe('Market Research on AI meeting assistants');
+    expect(text).toContain('AI meeting assistants. The findings are for investors. Constraints: North America only');
+    expect(text).toContain('Market Size & Growth');
+    expect(text).toContain(researchTemplates.market_research.exampleQuestions[0]);
+  });
+
+  it('suggests a template in the workflow prompt and rejects bad arguments', () => {
+    const text = getResearchPrompt(RESEARCH_WORKFLOW_PROMPT, {
+      topic: 'Evaluate a new software platform'
+    }).messages[0].content.text;
+
+    expect(text).toContain('"technology_assessment" template');
+    expect(() => getResearchPrompt('market_research', {})).toThrow('Missing required argument: topic');
+    expect(() => getResearchPrompt('unknown', { topic: 'x' })).toThrow('Unknown prompt: unknown');
+    expect(() => getResearchPrompt(RESEARCH_WORKFLOW_PROMPT, { topic: 'x', template: 'nope' })).toThrow(
+      'Unknown template: nope'
+    );
+  });
+});
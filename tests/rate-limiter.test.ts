@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { RateLimiter } from '../src/rate-limiter.js';
+
+const SMALL = { inputTokens: 10, outputTokens: 10 };
+
+describe('RateLimiter', () => {
+  it('holds requests beyond the per-window limit', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2 }, 50);
+    const started = Date.now();
+
+    await limiter.acquire(SMALL);
+    await limiter.acquire(SMALL);
+    expect(limiter.getRequestsRemaining()).toBe(0);
+
+    await limiter.acquire(SMALL);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(50);
+  });
+
+  it('budgets tokens and releases capacity when actual usage is lower', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 10, outputTokensPerMinute: 1000 }, 10000);
+
+    const first = await limiter.acquire({ inputTokens: 10, outputTokens: 1000 });
+    let secondGranted = false;
+    const second = limiter.acquire({ inputTokens: 10, outputTokens: 500 }).then(r => {
+      secondGranted = true;
+      return r;
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(secondGranted).toBe(false);
+
+    limiter.settle(first, { inputTokens: 10, outputTokens: 200 });
+    await second;
+    expect(secondGranted).toBe(true);
+  });
+
+  it('serves interactive requests before queued batch requests', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1 }, 30);
+    await limiter.acquire(SMALL);
+
+    const order: string[] = [];
+    const batch = limiter.acquire(SMALL, 'batch').then(() => order.push('batch'));
+    const interactive = limiter.acquire(SMALL, 'interactive').then(() => order.push('interactive'));
+
+    await Promise.all([batch, interactive]);
+    expect(order).toEqual(['interactive', 'batch']);
+  });
+
+  it('waits for the reset reported in rate-limit headers', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 100 }, 60000);
+    const resetAt = new Date(Date.now() + 60);
+    limiter.updateFromHeaders(new Headers({
+      'anthropic-ratelimit-requests-limit': '40',
+      'anthropic-ratelimit-requests-remaining': '0',
+      'anthropic-ratelimit-requests-reset': resetAt.toISOString()
+    }));
+
+    await limiter.acquire(SMALL);
+    expect(Date.now()).toBeGreaterThanOrEqual(resetAt.getTime());
+    expect(limiter.getRequestsRemaining()).toBe(39);
+  });
+});
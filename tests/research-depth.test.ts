@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { EXHAUSTIVE_RESEARCH_PASSES } from '../src/flexible-research-agent.js';
+import { createScriptedClient, planResearch } from './fixtures.js';
+
+describe('research depth and sources', () => {
+  it('applies run-wide settings with per-dimension overrides and records them', async () => {
+    const llm = createScriptedClient();
+    const manager = new FlexibleResearchManager(llm);
+    const plan = await planResearch(manager);
+
+    const { synthesis } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'sequential',
+      includeQualityReview: false,
+      depth: 'basic',
+      includeSources: false,
+      dimensionSettings: {
+        market_size: { depth: 'exhaustive', includeSources: true }
+      }
+    });
+
+    const researchCalls = llm.callsFor('research');
+    const marketSizeCalls = researchCalls.filter(call => call.prompt.includes('dimension: Market Size & Growth'));
+    expect(marketSizeCalls).toHaveLength(EXHAUSTIVE_RESEARCH_PASSES);
+    expect(marketSizeCalls[0].prompt).toContain('Provide an exhaustive analysis');
+    expect(marketSizeCalls[1].prompt).toContain('Research so far:');
+    // Each follow-up sees every earlier pass, including the previous follow-up's answer
+    expect(marketSizeCalls[2].prompt).toContain('Findings for Continue researching');
+    expect(researchCalls).toHaveLength(EXHAUSTIVE_RESEARCH_PASSES + plan.config.dimensions.length - 1);
+
+    const marketSize = synthesis.dimensionFindings.market_size;
+    expect(marketSize.metadata).toMatchObject({
+      researchDepth: 'exhaustive',
+      includeSources: true,
+      researchPasses: EXHAUSTIVE_RESEARCH_PASSES
+    });
+    expect(marketSize.sources).toEqual(['Industry report 2024']);
+
+    const trends = synthesis.dimensionFindings.market_trends;
+    expect(trends.metadata).toMatchObject({ researchDepth: 'basic', includeSources: false, researchPasses: 1 });
+    expect(trends.sources).toBeUndefined();
+    const trendsPrompt = researchCalls.find(call => call.prompt.includes('dimension: Market Trends'))!.prompt;
+    expect(trendsPrompt).toContain('Provide a focused analysis');
+    expect(trendsPrompt).not.toContain('Include relevant sources');
+  });
+
+  it('defaults to comprehensive research with sources', async () => {
+    const manager = new FlexibleResearchManager(createScriptedClient());
+    const plan = await planResearch(manager);
+
+    const { synthesis } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'parallel',
+      includeQualityReview: false
+    });
+
+    for (const results of Object.values(synthesis.dimensionFindings)) {
+      expect(results.metadata).toMatchObject({ researchDepth: 'comprehensive', includeSources: true });
+    }
+  });
+
+  it('rejects settings for dimensions the plan does not have', async () => {
+    const manager = new FlexibleResearchManager(createScriptedClient());
+    const plan = await planResearch(manager);
+
+    await expect(manager.startResearch({
+      configId: plan.config.id,
+      executionMode: 'parallel',
+      includeQualityReview: false,
+      dimensionSettings: { pricing: { depth: 'basic' } }
+    })).rejects.toMatchObject({
+      code: 'invalid_argument',
+      message: 'Invalid research settings: dimensionSettings.pricing does not match a dimension of the plan'
+    });
+  });
+});
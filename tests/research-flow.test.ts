@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { ResearchTaskManager } from '../src/research-task-manager.js';
+import { MockLLMClient } from '../src/mock-llm-client.js';
+import { createScriptedClient } from './fixtures.js';
+
+describe('flexible research flow', () => {
+  it('configures, plans and runs research offline', async () => {
+    const llm = createScriptedClient();
+    const manager = new FlexibleResearchManager(llm);
+
+    const session = await manager.configureResearch({
+      initialDescription: 'Market demand for AI meeting assistants'
+    });
+    expect(session.suggestedTemplate).toBe('market_research');
+
+    const turn = await manager.continueConfiguration({
+      sessionId: session.sessionId,
+      userResponse: 'Investors, North America'
+    });
+    expect(turn.configComplete).toBe(true);
+    expect(turn.extractedConfig?.context?.audience).toEqual(['investors']);
+
+    const plan = await manager.generateResearchPlan({ sessionId: session.sessionId });
+    expect(plan.config.dimensions.map(d => d.id)).toEqual([
+      'market_size',
+      'competitive_landscape',
+      'customer_analysis',
+      'market_trends'
+    ]);
+    expect(plan.preview).toContain('# Research Plan');
+
+    const { task, synthesis } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'parallel',
+      includeQualityReview: true
+    });
+
+    expect(task.status).toBe('completed');
+    expect(Object.keys(synthesis.dimensionFindings)).toHaveLength(4);
+    expect(synthesis.dimensionFindings.market_size.confidence).toBe(0.82);
+    expect(synthesis.qualityReview?.overallScore).toBe(0.9);
+    expect(synthesis.recommendations.primary).toBe('Enter the market');
+    expect(synthesis.executiveSummary).toBe('Executive summary: enter the market.');
+    expect(llm.callsFor('research')).toHaveLength(4);
+  });
+
+  it('edits a plan before running it', async () => {
+    const manager = new FlexibleResearchManager(createScriptedClient());
+    const session = await manager.configureResearch({
+      initialDescription: 'Market demand for AI meeting assistants'
+    });
+    await manager.continueConfiguration({ sessionId: session.sessionId, userResponse: 'Investors' });
+    const plan = await manager.generateResearchPlan({ sessionId: session.sessionId });
+
+    const { config } = await manager.modifyResearchPlan({
+      planId: plan.config.id,
+      operations: [
+        { op: 'removeDimension', dimensionId: 'market_trends' },
+        { op: 'reorderDimensions', order: ['customer_analysis', 'market_size', 'competitive_landscape'] },
+        { op: 'updateDimension', dimensionId: 'market_size', changes: { weight: 0.5 } }
+      ]
+    });
+
+    expect(config.dimensions.map(d => d.id)).toEqual([
+      'customer_analysis',
+      'market_size',
+      'competitive_landscape'
+    ]);
+    expect(config.dimensions[1].weight).toBe(0.5);
+
+    await expect(manager.modifyResearchPlan({
+      planId: plan.config.id,
+      operations: [{ op: 'updateDimension', dimensionId: 'market_size', changes: { weight: 3 } }]
+    })).rejects.toThrow('weight must be between 0 and 1');
+    expect(manager.getConfig(plan.config.id)?.dimensions[1].weight).toBe(0.5);
+  });
+
+  it('fails loudly when no scripted response matches', async () => {
+    const manager = new FlexibleResearchManager(new MockLLMClient());
+
+    await expect(manager.configureResearch({ initialDescription: 'Anything' }))
+      .rejects.toThrow('No mock response for wizard request');
+  });
+});
+
+describe('legacy research flow', () => {
+  it('runs the six legacy steps offline', async () => {
+    const llm = createScriptedClient();
+    const manager = new ResearchTaskManager(llm);
+
+    const task = await manager.createResearchTask({
+      title: 'LLM evaluation tools',
+      goal: 'Find the best opportunity',
+      strategy: 'Compare areas'
+    });
+    await manager.defineEvaluationAreas(task.id, { areas: ['Prompt tooling', 'Eval dashboards'] });
+    await manager.initializeSubagents({
+      parent_task_id: task.id,
+      subagents: [
+        { area: 'Prompt tooling', objectives: ['Assess demand'] },
+        { area: 'Eval dashboards', objectives: ['Assess demand'] }
+      ]
+    });
+
+    const agents = await manager.runSubagentResearch(task.id, {
+      execution_mode: 'sequential',
+      depth: 'basic',
+      include_sources: false
+    });
+    expect(agents.every(a => a.status === 'completed')).toBe(true);
+
+    const synthesis = await manager.synthesizeFindings(task.id, {
+      dimensions_to_compare: ['demand'],
+      goal: 'pick an area'
+    });
+    expect(synthesis.rankings).toHaveLength(2);
+
+    const recommendation = await manager.getOpportunityRecommendation(task.id);
+    expect(recommendation.recommendedArea).toBe('Prompt tooling');
+    expect(recommendation.confidence).toBe(0.8);
+    expect(llm.callsFor('legacy_research')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { MemoryStorage } from '../src/storage.js';
+import { MockLLMClient } from '../src/mock-llm-client.js';
+import { createScriptedClient, planResearch } from './fixtures.js';
+
+describe('background research jobs', () => {
+  it('returns a task immediately and reports progress until the result is ready', async () => {
+    const manager = new FlexibleResearchManager(createScriptedClient());
+    const plan = await planResearch(manager);
+
+    const task = await manager.startResearch({
+      configId: plan.config.id,
+      executionMode: 'sequential',
+      includeQualityReview: true
+    });
+
+    expect(task.status).toBe('in_progress');
+    const running = manager.getResearchStatus(task.id);
+    expect(running.progress.total).toBe(4);
+    expect(running.progress.completed).toBe(0);
+    expect(() => manager.getResearchResult(task.id)).toThrow('is still in_progress');
+
+    await manager.waitForResearch(task.id);
+
+    const finished = manager.getResearchStatus(task.id);
+    expect(finished.task.status).toBe('completed');
+    expect(finished.progress.completed).toBe(4);
+    expect(finished.subAgents[0].results?.confidence).toBe(0.82);
+
+    const result = manager.getResearchResult(task.id);
+    expect(result.synthesis.recommendations.primary).toBe('Enter the market');
+    expect(result.cost.total.calls).toBeGreaterThan(0);
+  });
+
+  it('marks the task failed when the run throws', async () => {
+    const llm: MockLLMClient = createScriptedClient([
+      {
+        role: 'synthesis',
+        response: () => {
+          throw new Error('synthesis unavailable');
+        }
+      }
+    ]);
+    const manager = new FlexibleResearchManager(llm);
+    const plan = await planResearch(manager);
+
+    const task = await manager.startResearch({
+      configId: plan.config.id,
+      executionMode: 'parallel',
+      includeQualityReview: false
+    });
+    await expect(manager.waitForResearch(task.id)).rejects.toThrow('synthesis unavailable');
+
+    expect(manager.getResearchStatus(task.id).task).toMatchObject({
+      status: 'failed',
+      error: 'synthesis unavailable'
+    });
+    expect(() => manager.getResearchResult(task.id)).toThrow('failed: synthesis unavailable');
+  });
+
+  it('fails runs that were in progress when the server stopped', async () => {
+    const storage = new MemoryStorage();
+    const manager = new FlexibleResearchManager(createScriptedClient(), storage);
+    const plan = await planResearch(manager);
+    const task = await manager.createResearchTaskFromConfig(plan.config.id);
+    await storage.put('tasks', task.id, { ...task, status: 'in_progress' });
+
+    const restarted = new FlexibleResearchManager(createScriptedClient(), storage);
+    await restarted.loadFromStorage();
+
+    expect(restarted.getResearchStatus(task.id).task.status).toBe('failed');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { FlexibleResearchManager, ResearchChange } from '../src/flexible-research-manager.js';
+import { ResearchResources } from '../src/research-resources.js';
+import { createScriptedClient } from './fixtures.js';
+
+describe('research resources', () => {
+  it('lists and reads plans, syntheses, dimensions and transcripts', async () => {
+    const manager = new FlexibleResearchManager(createScriptedClient());
+    const resources = new ResearchResources(manager);
+    const changes: ResearchChange[] = [];
+    manager.onChange(change => changes.push(change));
+
+    const session = await manager.configureResearch({
+      initialDescription: 'Market demand for AI meeting assistants'
+    });
+    await manager.continueConfiguration({ sessionId: session.sessionId, userResponse: 'Investors' });
+    const plan = await manager.generateResearchPlan({ sessionId: session.sessionId });
+    const { task } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'sequential',
+      includeQualityReview: true
+    });
+
+    expect(changes).toEqual([
+      { kind: 'config', id: plan.config.id },
+      { kind: 'task', id: task.id }
+    ]);
+
+    const dimensionId = plan.config.dimensions[0].id;
+    const uris = resources.list().map(resource => resource.uri);
+    expect(uris).toContain(`research://configs/${plan.config.id}`);
+    expect(uris).toContain(`research://tasks/${task.id}/synthesis`);
+    expect(uris).toContain(`research://tasks/${task.id}/dimensions/${dimensionId}`);
+    expect(uris).toContain(`research://sessions/${session.sessionId}/transcript`);
+
+    const config = resources.read(`research://configs/${plan.config.id}`);
+    expect(config.mimeType).toBe('application/json');
+    expect(JSON.parse(config.text).topic).toBe(plan.config.topic);
+
+    const synthesis = resources.read(`research://tasks/${task.id}/synthesis`);
+    expect(synthesis.mimeType).toBe('text/markdown');
+    expect(synthesis.text).toContain('Enter the market');
+
+    const dimension = resources.read(`research://tasks/${task.id}/dimensions/${dimensionId}`);
+    expect(dimension.text).toContain(`# ${plan.config.dimensions[0].name}`);
+
+    const transcript = resources.read(`research://sessions/${session.sessionId}/transcript`);
+    expect(transcript.text).toContain('Investors');
+
+    expect(resources.urisFor({ kind: 'task', id: task.id })).toContain(
+      `research://tasks/${task.id}/dimensions/${dimensionId}`
+    );
+  });
+
+  it('rejects unknown URIs', () => {
+    const resources = new ResearchResources(new FlexibleResearchManager(createScriptedClient()));
+
+    expect(() => resources.read('research://tasks/missing/synthesis')).toThrow(
+      'Resource not found: research://tasks/missing/synthesis'
+    );
+    expect(() => resources.read('https://example.com')).toThrow('Resource not found');
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { withMiddleware } from '../src/llm-client.js';
+import { MockLLMClient } from '../src/mock-llm-client.js';
+import { DEFAULT_MODEL_ROUTING, modelRoutingMiddleware } from '../src/model-routing.js';
+import { LLMCallError } from '../src/retry.js';
+import { EXHAUSTIVE_RESEARCH_PASSES } from '../src/flexible-research-agent.js';
+import { createScriptedClient, planResearch } from './fixtures.js';
+
+// The first attempt at the competitive landscape fails; later attempts succeed
+function clientFailingOnce(): MockLLMClient {
+  return createScriptedClient([
+    {
+      role: 'research',
+      pattern: 'Competitive Landscape',
+      times: 1,
+      response: () => {
+        throw new LLMCallError('LLM call failed (overloaded, gave up after 5 attempts)', 'overloaded', 5, 529);
+      }
+    }
+  ]);
+}
+
+describe('retryFailedDimensions', () => {
+  it('re-runs only the failed dimensions and synthesizes over the merged results', async () => {
+    const llm = clientFailingOnce();
+    const manager = new FlexibleResearchManager(
+      withMiddleware(llm, modelRoutingMiddleware(DEFAULT_MODEL_ROUTING))
+    );
+    const plan = await planResearch(manager);
+
+    const first = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'sequential',
+      includeQualityReview: false
+    });
+    expect(first.synthesis.dimensionFindings.competitive_landscape).toBeUndefined();
+    expect(manager.getResearchStatus(first.task.id).subAgents
+      .find(agent => agent.dimensionId === 'competitive_landscape')!.error?.kind).toBe('overloaded');
+    const kept = manager.getResearchStatus(first.task.id).subAgents
+      .find(agent => agent.dimensionId === 'market_size')!.results;
+
+    const callsBefore = llm.calls.length;
+    const retried = await manager.retryFailedDimensions({
+      taskId: first.task.id,
+      depth: 'basic',
+      includeQualityReview: true,
+      models: { research: { model: 'claude-override' } }
+    });
+
+    const researchCalls = llm.calls.slice(callsBefore).filter(call => call.role === 'research');
+    expect(researchCalls).toHaveLength(1);
+    expect(researchCalls[0].prompt).toContain('Competitive Landscape');
+    expect(researchCalls[0].model).toBe('claude-override');
+
+    const status = manager.getResearchStatus(first.task.id);
+    expect(status.task.status).toBe('completed');
+    expect(status.progress.failed).toBe(0);
+    expect(status.subAgents.find(agent => agent.dimensionId === 'market_size')!.results).toBe(kept);
+
+    expect(Object.keys(retried.synthesis.dimensionFindings)).toContain('competitive_landscape');
+    expect(Object.keys(retried.synthesis.dimensionFindings)).toHaveLength(plan.config.dimensions.length);
+    expect(retried.synthesis.qualityReview?.overallScore).toBe(0.9);
+  });
+
+  it('re-runs the dimensions asked for even when they completed', async () => {
+    const llm = createScriptedClient();
+    const manager = new FlexibleResearchManager(llm);
+    const plan = await planResearch(manager);
+    const { task } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'parallel',
+      includeQualityReview: false
+    });
+
+    const callsBefore = llm.calls.length;
+    await manager.retryFailedDimensions({ taskId: task.id, dimensionIds: ['market_trends'] });
+
+    const researchCalls = llm.calls.slice(callsBefore).filter(call => call.role === 'research');
+    expect(researchCalls).toHaveLength(1);
+    expect(researchCalls[0].prompt).toContain('Market Trends');
+  });
+
+  it('defaults to the settings of the original run', async () => {
+    const llm = clientFailingOnce();
+    const manager = new FlexibleResearchManager(llm);
+    const plan = await planResearch(manager);
+    const { task } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'sequential',
+      includeQualityReview: false,
+      depth: 'basic',
+      dimensionSettings: { competitive_landscape: { depth: 'exhaustive' } }
+    });
+
+    let callsBefore = llm.calls.length;
+    const retried = await manager.retryFailedDimensions({ taskId: task.id });
+    let retryCalls = llm.calls.slice(callsBefore);
+    expect(retryCalls.filter(call => call.role === 'research')).toHaveLength(EXHAUSTIVE_RESEARCH_PASSES);
+    expect(retryCalls.filter(call => call.role === 'quality_review')).toHaveLength(0);
+    expect(retried.synthesis.dimensionFindings.competitive_landscape.metadata).toMatchObject({ researchDepth: 'exhaustive' });
+
+    // Settings given to the retry win over the original per-dimension ones
+    callsBefore = llm.calls.length;
+    await manager.retryFailedDimensions({ taskId: task.id, dimensionIds: ['competitive_landscape'], depth: 'basic' });
+    retryCalls = llm.calls.slice(callsBefore);
+    expect(retryCalls.filter(call => call.role === 'research')).toHaveLength(1);
+  });
+
+  it('rejects a second retry of the same task while the first is running', async () => {
+    const manager = new FlexibleResearchManager(clientFailingOnce());
+    const plan = await planResearch(manager);
+    const { task } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'parallel',
+      includeQualityReview: false
+    });
+
+    const first = manager.retryFailedDimensions({ taskId: task.id });
+    await expect(manager.retryFailedDimensions({ taskId: task.id }))
+      .rejects.toMatchObject({ code: 'invalid_state' });
+
+    const result = await first;
+    expect(result.task.status).toBe('completed');
+    expect(manager.getResearchStatus(task.id).progress.failed).toBe(0);
+  });
+
+  it('rejects retries with nothing to re-run or unknown dimensions', async () => {
+    const manager = new FlexibleResearchManager(createScriptedClient());
+    const plan = await planResearch(manager);
+    const { task } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'parallel',
+      includeQualityReview: false
+    });
+
+    await expect(manager.retryFailedDimensions({ taskId: task.id }))
+      .rejects.toMatchObject({ code: 'invalid_state' });
+    await expect(manager.retryFailedDimensions({ taskId: task.id, dimensionIds: ['pricing'] }))
+      .rejects.toMatchObject({ code: 'not_found', message: `Dimension pricing not found in task ${task.id}` });
+    await expect(manager.retryFailedDimensions({ taskId: 'missing' }))
+      .rejects.toMatchObject({ code: 'not_found' });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import Anthropic from '@anthropic-ai/sdk';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { MemoryStorage } from '../src/storage.js';
+import { FlexibleSubAgent } from '../src/types.js';
+import { LLMCallError, RetryPolicy, classifyLLMError, withRetry } from '../src/retry.js';
+import { createScriptedClient } from './fixtures.js';
+
+const FAST: RetryPolicy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 };
+
+function apiError(status: number, headers: Record<string, string> = {}) {
+  return Anthropic.APIError.generate(status, {}, `HTTP ${status}`, new Headers(headers));
+}
+
+describe('retry policy', () => {
+  it('classifies provider errors', () => {
+    expect(classifyLLMError(apiError(429, { 'retry-after': '2' }))).toMatchObject({
+      kind: 'rate_limit',
+      retryable: true,
+      retryAfterMs: 2000
+    });
+    expect(classifyLLMError(apiError(529)).kind).toBe('overloaded');
+    expect(classifyLLMError(apiError(503)).kind).toBe('server');
+    expect(classifyLLMError(new Anthropic.APIConnectionTimeoutError()).kind).toBe('timeout');
+    expect(classifyLLMError(apiError(401))).toMatchObject({ kind: 'auth', retryable: false });
+    expect(classifyLLMError(apiError(400))).toMatchObject({ kind: 'invalid_request', retryable: false });
+  });
+
+  it('retries transient failures and stops at the retry limit', async () => {
+    let calls = 0;
+    const recovered = await withRetry(async () => {
+      calls++;
+      if (calls < 3) throw apiError(529);
+      return 'ok';
+    }, FAST);
+    expect(recovered).toBe('ok');
+
+    calls = 0;
+    const exhausted = withRetry(async () => {
+      calls++;
+      throw apiError(429);
+    }, FAST);
+    await expect(exhausted).rejects.toMatchObject({ kind: 'rate_limit', attempts: 3 });
+    expect(calls).toBe(3);
+  });
+
+  it('does not retry permanent failures', async () => {
+    let calls = 0;
+    const failed = withRetry(async () => {
+      calls++;
+      throw apiError(401);
+    }, FAST);
+    await expect(failed).rejects.toBeInstanceOf(LLMCallError);
+    expect(calls).toBe(1);
+  });
+
+  it('records why a dimension failed on its sub-agent', async () => {
+    const llm = createScriptedClient([
+      {
+        role: 'research',
+        response: () => {
+          throw new LLMCallError('LLM call failed (overloaded, gave up after 5 attempts)', 'overloaded', 5, 529);
+        }
+      }
+    ]);
+    const storage = new MemoryStorage();
+    const manager = new FlexibleResearchManager(llm, storage);
+    const session = await manager.configureResearch({ initialDescription: 'AI meeting assistants' });
+    await manager.continueConfiguration({ sessionId: session.sessionId, userResponse: 'Investors' });
+    const plan = await manager.generateResearchPlan({ sessionId: session.sessionId });
+
+    const { task } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'sequential',
+      includeQualityReview: false
+    });
+
+    const agents = (await storage.get<FlexibleSubAgent[]>('subagents', task.id))!;
+    expect(agents.every(agent => agent.status === 'failed')).toBe(true);
+    expect(agents[0].error).toMatchObject({ kind: 'overloaded', attempts: 5 });
+  });
+});
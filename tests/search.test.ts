@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { MemoryStorage } from '../src/storage.js';
+import { MockLLMClient } from '../src/mock-llm-client.js';
+import { validateToolArguments } from '../src/tools.js';
+import { ConversationState, ResearchConfig, ResearchDomain, ResearchTask } from '../src/types.js';
+
+function config(id: string, topic: string, domain: ResearchDomain, createdAt: string): ResearchConfig {
+  return {
+    id,
+    topic,
+    context: { domain, audience: ['Investors'], perspective: 'balanced' },
+    dimensions: [],
+    outputFormat: 'synthesis',
+    qualityChecks: [],
+    createdAt: new Date(createdAt)
+  };
+}
+
+function task(id: string, configId: string, status: ResearchTask['status'], createdAt: string): ResearchTask {
+  return {
+    id,
+    title: `Task ${id}`,
+    goal: 'Compare the options',
+    strategy: 'flexible',
+    status,
+    configId,
+    createdAt: new Date(createdAt),
+    updatedAt: new Date(createdAt)
+  };
+}
+
+async function seededManager() {
+  const storage = new MemoryStorage();
+  const configs = [
+    config('c1', 'AI meeting assistants', 'market_research', '2026-10-01T10:00:00Z'),
+    config('c2', 'Note-taking app rivals', 'competitive_analysis', '2026-10-08T10:00:00Z'),
+    config('c3', 'Vector databases', 'technology_assessment', '2026-10-12T10:00:00Z')
+  ];
+  for (const c of configs) {
+    await storage.put('configs', c.id, c);
+  }
+  for (const t of [
+    task('t1', 'c1', 'completed', '2026-10-02T10:00:00Z'),
+    task('t2', 'c2', 'completed', '2026-10-09T10:00:00Z'),
+    task('t3', 'c2', 'failed', '2026-10-10T10:00:00Z'),
+    task('t4', 'c3', 'completed', '2026-10-13T10:00:00Z')
+  ]) {
+    await storage.put('tasks', t.id, t);
+  }
+  const session: ConversationState = {
+    sessionId: 's1',
+    turns: [{ role: 'user', content: 'Who competes with our note-taking app?', timestamp: new Date('2026-10-07T09:00:00Z') }],
+    clarificationNeeded: [],
+    status: 'completed'
+  };
+  await storage.put('sessions', session.sessionId, session);
+
+  const manager = new FlexibleResearchManager(new MockLLMClient(), storage);
+  await manager.loadFromStorage();
+  return manager;
+}
+
+describe('research search', () => {
+  it('finds last week\'s competitive analysis', async () => {
+    const manager = await seededManager();
+
+    const page = manager.searchTasks({
+      domain: 'competitive_analysis',
+      status: 'completed',
+      createdAfter: '2026-10-05',
+      createdBefore: '2026-10-12'
+    });
+
+    expect(page.items.map(t => t.id)).toEqual(['t2']);
+    expect(manager.searchConfigs({ text: 'NOTE-TAKING' }).items.map(c => c.id)).toEqual(['c2']);
+    expect(manager.searchSessions({ text: 'note-taking', status: 'completed' }).total).toBe(1);
+    expect(manager.searchSessions({ status: 'active' }).total).toBe(0);
+  });
+
+  it('pages through results newest first', async () => {
+    const manager = await seededManager();
+
+    const first = manager.searchTasks({ limit: 3 });
+    expect(first.items.map(t => t.id)).toEqual(['t4', 't3', 't2']);
+    expect(first.total).toBe(4);
+
+    const second = manager.searchTasks({ limit: 3, cursor: first.nextCursor });
+    expect(second.items.map(t => t.id)).toEqual(['t1']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('rejects bad dates, cursors and limits', async () => {
+    const manager = await seededManager();
+
+    expect(() => manager.searchTasks({ createdAfter: 'last week' })).toThrow(
+      'createdAfter must be an ISO 8601 date, got last week'
+    );
+    expect(() => manager.searchConfigs({ cursor: 'nonsense' })).toThrow('Invalid cursor: nonsense');
+    expect(() => validateToolArguments('listResearchTasks', { limit: 500 })).toThrow('arguments.limit must be <= 100');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { FileStorage } from '../src/storage.js';
+import { createScriptedClient, planResearch } from './fixtures.js';
+
+const dirs: string[] = [];
+
+async function tempDir(): Promise<string> {
+  const dir = await fs.mkdtemp(join(tmpdir(), 'research-storage-'));
+  dirs.push(dir);
+  return dir;
+}
+
+describe('file storage', () => {
+  afterEach(async () => {
+    await Promise.all(dirs.splice(0).map(dir => fs.rm(dir, { recursive: true, force: true })));
+  });
+
+  it('reloads configs, sessions and tasks with their dates intact', async () => {
+    const dir = await tempDir();
+    const manager = new FlexibleResearchManager(createScriptedClient(), new FileStorage(dir));
+    const plan = await planResearch(manager);
+    const { task } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'parallel',
+      includeQualityReview: false
+    });
+
+    const reloaded = new FlexibleResearchManager(createScriptedClient(), new FileStorage(dir));
+    await reloaded.loadFromStorage();
+
+    const config = reloaded.getConfig(plan.config.id)!;
+    expect(config.createdAt).toBeInstanceOf(Date);
+    expect(config.createdAt).toEqual(plan.config.createdAt);
+    expect(config.dimensions).toEqual(plan.config.dimensions);
+
+    const storedTask = reloaded.getTask(task.id)!;
+    expect(storedTask.status).toBe('completed');
+    expect(storedTask.createdAt).toBeInstanceOf(Date);
+    expect(storedTask.updatedAt).toBeInstanceOf(Date);
+
+    const storedSession = reloaded.listSessions().find(s => s.sessionId === plan.sessionId)!;
+    expect(storedSession.turns.length).toBeGreaterThan(0);
+    for (const turn of storedSession.turns) {
+      expect(turn.timestamp).toBeInstanceOf(Date);
+    }
+
+    const agents = reloaded.getResearchStatus(task.id).subAgents;
+    expect(agents.every(agent => agent.timing?.startedAt instanceof Date)).toBe(true);
+  });
+
+  it('writes through a temporary file and keeps the last of concurrent writes', async () => {
+    const dir = await tempDir();
+    const storage = new FileStorage(dir);
+
+    await Promise.all([1, 2, 3].map(version => storage.put('configs', 'plan/1', { version })));
+
+    expect(await fs.readdir(join(dir, 'configs'))).toEqual([`${encodeURIComponent('plan/1')}.json`]);
+    expect(await storage.get('configs', 'plan/1')).toEqual({ version: 3 });
+    expect(await storage.entries('configs')).toEqual([{ id: 'plan/1', value: { version: 3 } }]);
+  });
+
+  it('skips unreadable records and leftover temporary files when listing', async () => {
+    const dir = await tempDir();
+    const storage = new FileStorage(dir);
+    await storage.put('tasks', 'good', { createdAt: new Date('2024-05-01T00:00:00Z') });
+    await fs.writeFile(join(dir, 'tasks', 'broken.json'), '{"status": "compl', 'utf8');
+    await fs.writeFile(join(dir, 'tasks', 'good.json.1234.tmp'), '{', 'utf8');
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      const entries = await storage.entries<{ createdAt: Date }>('tasks');
+      expect(entries.map(entry => entry.id)).toEqual(['good']);
+      expect(entries[0].value.createdAt).toEqual(new Date('2024-05-01T00:00:00Z'));
+      expect(logged).toHaveBeenCalledWith('Skipping unreadable tasks record broken:', expect.any(SyntaxError));
+    } finally {
+      logged.mockRestore();
+    }
+
+    await expect(storage.get('tasks', 'broken')).rejects.toThrow(SyntaxError);
+    expect(await storage.get('tasks', 'missing')).toBeUndefined();
+    expect(await storage.entries('configs')).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { LLMParseError } from '../src/llm-client.js';
+import { MockLLMClient } from '../src/mock-llm-client.js';
+import { createScriptedClient, planResearch } from './fixtures.js';
+
+const OUTPUT = {
+  name: 'record_score',
+  description: 'Record a score',
+  schema: {
+    type: 'object' as const,
+    properties: { score: { type: 'number' as const, minimum: 0, maximum: 1 } },
+    required: ['score']
+  }
+};
+
+describe('structured output', () => {
+  it('passes the schema to the provider and repairs one invalid answer', async () => {
+    const llm = new MockLLMClient([
+      { role: 'structuring', response: 'Sure! The score is 0.4', times: 1 },
+      { role: 'structuring', response: { score: 0.4 } }
+    ]);
+
+    const result = await llm.completeStructured({ role: 'structuring', prompt: 'Score it' }, OUTPUT);
+
+    expect(result).toEqual({ score: 0.4 });
+    expect(llm.calls).toHaveLength(2);
+    expect(llm.calls[0].output?.name).toBe('record_score');
+    expect(llm.calls[1].prompt).toContain('Your previous answer could not be used');
+  });
+
+  it('gives up after the repair attempt', async () => {
+    const llm = new MockLLMClient([{ role: 'structuring', response: { score: 7 } }]);
+
+    await expect(llm.completeStructured({ role: 'structuring', prompt: 'Score it' }, OUTPUT))
+      .rejects.toThrow(LLMParseError);
+    expect(llm.calls).toHaveLength(2);
+  });
+
+  it('flags unparseable results instead of inventing values', async () => {
+    const llm = createScriptedClient([
+      { role: 'structuring', pattern: 'Extract and structure the research findings', response: 'not json' },
+      { role: 'structuring', pattern: 'Extract structured quality review', response: { overallScore: 'high' } },
+      { role: 'structuring', pattern: 'Extract structured synthesis', response: { crossDimensionInsights: [] } }
+    ]);
+
+    const manager = new FlexibleResearchManager(llm);
+    const plan = await planResearch(manager);
+    const { synthesis } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'parallel',
+      includeQualityReview: true
+    });
+
+    const findings = synthesis.dimensionFindings.market_size;
+    expect(findings.parseError).toContain('not valid JSON');
+    expect(findings.confidence).toBe(0);
+    expect(findings.findings).toEqual({ raw: expect.stringContaining('Findings for') });
+
+    expect(synthesis.qualityReview?.parseError).toContain('$.overallScore must be a number');
+    expect(synthesis.qualityReview?.dimensionScores).toEqual({});
+
+    expect(synthesis.parseError).toContain('$.recommendations is required');
+    expect(synthesis.rawSynthesis).toBe('Across dimensions, the market is attractive.');
+    expect(synthesis.recommendations.primary).toBe('');
+    expect(synthesis.executiveSummary).toBeUndefined();
+  });
+
+  it('fails plan generation instead of inventing dimensions it could not parse', async () => {
+    const llm = createScriptedClient([
+      { role: 'structuring', pattern: 'generate 3-5 research dimensions', response: { dimensions: [] }, times: 2 }
+    ]);
+    const manager = new FlexibleResearchManager(llm);
+    const session = await manager.configureResearch({ initialDescription: 'AI meeting assistants' });
+    await manager.continueConfiguration({ sessionId: session.sessionId, userResponse: 'Investors' });
+
+    await expect(manager.generateResearchPlan({ sessionId: session.sessionId })).rejects.toMatchObject({
+      code: 'upstream_llm_error',
+      message: expect.stringContaining('Could not generate research dimensions: Response does not match')
+    });
+    expect(manager.listConfigs()).toEqual([]);
+
+    // The session stays open, so the plan can be generated again
+    const plan = await manager.generateResearchPlan({ sessionId: session.sessionId });
+    expect(plan.config.dimensions.map(dimension => dimension.name)).toEqual(['Adoption']);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { toolErrorResult, tools, validateToolArguments } from '../src/tools.js';
+import { InvalidStateError, NotFoundError } from '../src/errors.js';
+import { BudgetExceededError } from '../src/budget.js';
+import { LLMCallError } from '../src/retry.js';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { createScriptedClient } from './fixtures.js';
+
+function errorOf(result: ReturnType<typeof toolErrorResult>) {
+  return JSON.parse(result.content[0].text).error;
+}
+
+describe('tool argument validation', () => {
+  it('accepts arguments matching the declared schema', () => {
+    expect(validateToolArguments('continueConfiguration', { sessionId: 's1', userResponse: 'Investors' })).toEqual({
+      name: 'continueConfiguration',
+      arguments: { sessionId: 's1', userResponse: 'Investors' }
+    });
+    expect(() => validateToolArguments('runFlexibleResearch', {
+      configId: 'c1',
+      executionMode: 'sequential',
+      budget: { maxCalls: 10 }
+    })).not.toThrow();
+  });
+
+  it('reports every violation as an invalid argument', () => {
+    expect(() => validateToolArguments('continueConfiguration', { userResponse: 42 })).toThrow(
+      'Invalid arguments for continueConfiguration: arguments.sessionId is required; arguments.userResponse must be a string'
+    );
+    expect(() => validateToolArguments('startResearch', { configId: 'c1', executionMode: 'fast' })).toThrow(
+      'arguments.executionMode must be one of "parallel", "sequential"'
+    );
+    expect(() => validateToolArguments('getTaskCost')).toThrow('arguments.taskId is required');
+    expect(() => validateToolArguments('deleteEverything', {})).toThrow(NotFoundError);
+  });
+
+  it('declares an object schema for every tool', () => {
+    for (const tool of tools) {
+      expect(tool.inputSchema.type).toBe('object');
+    }
+  });
+});
+
+describe('tool errors', () => {
+  it('map error classes to machine-readable codes', () => {
+    const invalid = (() => {
+      try {
+        validateToolArguments('getResearchStatus', {});
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    })()!;
+
+    expect(invalid.isError).toBe(true);
+    expect(errorOf(invalid)).toEqual({
+      code: 'invalid_argument',
+      message: 'Invalid arguments for getResearchStatus: arguments.taskId is required'
+    });
+    expect(errorOf(toolErrorResult(new BudgetExceededError('calls limit of 3 reached'))).code).toBe('budget_exceeded');
+    expect(errorOf(toolErrorResult(new LLMCallError('LLM call failed', 'overloaded', 5, 529))).code)
+      .toBe('upstream_llm_error');
+    expect(errorOf(toolErrorResult(new Error('boom')))).toEqual({ code: 'internal_error', message: 'boom' });
+  });
+
+  it('are raised by the research manager', async () => {
+    const manager = new FlexibleResearchManager(createScriptedClient());
+
+    expect(() => manager.getResearchStatus('missing')).toThrow(NotFoundError);
+    await expect(manager.continueConfiguration({ sessionId: 'missing', userResponse: 'x' }))
+      .rejects.toBeInstanceOf(NotFoundError);
+
+    const session = await manager.configureResearch({ initialDescription: 'Market demand for AI meeting assistants' });
+    await manager.continueConfiguration({ sessionId: session.sessionId, userResponse: 'Investors' });
+    const plan = await manager.generateResearchPlan({ sessionId: session.sessionId });
+    const task = await manager.startResearch({
+      configId: plan.config.id,
+      executionMode: 'sequential',
+      includeQualityReview: true
+    });
+
+    expect(() => manager.getResearchResult(task.id)).toThrow(InvalidStateError);
+    await manager.waitForResearch(task.id);
+    expect(() => manager.cancelResearch(task.id)).toThrow(InvalidStateError);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { FlexibleResearchManager } from '../src/flexible-research-manager.js';
+import { withMiddleware } from '../src/llm-client.js';
+import { runWithConcurrency, untilAborted } from '../src/worker-pool.js';
+import { createScriptedClient, planResearch } from './fixtures.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('worker pool', () => {
+  it('starts the next item as soon as a slot frees', async () => {
+    const items = [
+      { name: 'slow', delay: 60 },
+      { name: 'a', delay: 10 },
+      { name: 'b', delay: 10 },
+      { name: 'c', delay: 10 }
+    ];
+    const finished: string[] = [];
+    let running = 0;
+    let peak = 0;
+
+    await runWithConcurrency(items, 2, async item => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(item.delay);
+      running--;
+      finished.push(item.name);
+    });
+
+    // The slow first item does not hold back the ones queued behind it
+    expect(finished).toEqual(['a', 'b', 'c', 'slow']);
+    expect(peak).toBe(2);
+  });
+
+  it('leaves no rejection unhandled when the signal aborted before the work settles', async () => {
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on('unhandledRejection', onUnhandled);
+    try {
+      const controller = new AbortController();
+      controller.abort(new Error('cancelled'));
+      const work = sleep(10).then(() => {
+        throw new Error('aborted work');
+      });
+
+      await expect(untilAborted(controller.signal, work)).rejects.toThrow('cancelled');
+      await sleep(30);
+    } finally {
+      process.off('unhandledRejection', onUnhandled);
+    }
+    expect(unhandled).toEqual([]);
+  });
+
+  it('fails a dimension that runs past its timeout and records queue and execution times', async () => {
+    const scripted = createScriptedClient();
+    // Research on the competitive landscape never answers
+    const llm = withMiddleware(scripted, (request, next) =>
+      request.role === 'research' && request.prompt.includes('Competitive Landscape')
+        ? new Promise<string>(() => {})
+        : next(request)
+    );
+    const manager = new FlexibleResearchManager(llm);
+    const plan = await planResearch(manager);
+
+    const { task, synthesis } = await manager.runFlexibleResearch({
+      configId: plan.config.id,
+      executionMode: 'parallel',
+      includeQualityReview: false,
+      maxAgents: 2,
+      dimensionTimeoutMs: 50
+    });
+
+    const status = manager.getResearchStatus(task.id);
+    expect(status.task.status).toBe('completed');
+    expect(status.subAgents.map(agent => agent.status)).toEqual([
+      'completed',
+      'failed',
+      'completed',
+      'completed'
+    ]);
+    expect(status.subAgents[1].error).toEqual({
+      kind: 'timeout',
+      message: 'Research timed out after 50 ms'
+    });
+    expect(status.subAgents[1].timing?.executionMs).toBeGreaterThanOrEqual(45);
+    expect(Object.keys(synthesis.dimensionFindings)).not.toContain('competitive_landscape');
+
+    for (const agent of status.subAgents) {
+      expect(agent.timing?.queueWaitMs).toBeGreaterThanOrEqual(0);
+      expect(agent.timing?.finishedAt).toBeInstanceOf(Date);
+    }
+  });
+
+  it('rejects a maxAgents that is not a positive integer', async () => {
+    const manager = new FlexibleResearchManager(createScriptedClient());
+    const plan = await planResearch(manager);
+
+    await expect(manager.startResearch({
+      configId: plan.config.id,
+      executionMode: 'parallel',
+      includeQualityReview: false,
+      maxAgents: 0
+    })).rejects.toMatchObject({
+      code: 'invalid_argument',
+      message: 'maxAgents must be a positive integer'
+    });
+  });
+});